@@ -12,6 +12,9 @@ const ES_HOST = process.env.ES_HOST;
 const ES_INDEX_NAME = process.env.ES_INDEX_NAME;
 const ES_API_KEY = process.env.ES_API_KEY;
 
+// Passes of the active version flip before giving up on chunks it couldn't update
+const ACTIVATION_ATTEMPTS = 3;
+
 const esClient = axios.create({
   baseURL: ES_HOST,
   headers: ES_API_KEY
@@ -24,10 +27,202 @@ const esClient = axios.create({
       },
 });
 
+/**
+ * The index holds vectors from a different embedding model or size than the active provider
+ * Startup stops on this error instead of serving failed indexing and meaningless searches
+ */
+export class EmbeddingMappingError extends Error {}
+
+/**
+ * Embedding dims and model recorded in the index mapping
+ * (dims null if there's no embedding field, model null for indexes created before _meta)
+ */
+export async function getIndexEmbeddingInfo(
+  indexName: string = ES_INDEX_NAME!
+): Promise<{ dims: number | null; model: string | null; chunkIdType: string | null }> {
+  const response = await esClient.get(`/${indexName}/_mapping`);
+
+  // Keyed by the concrete index name, which differs from ES_INDEX_NAME for aliases
+  const [index] = Object.values(response.data) as any[];
+  return {
+    dims: index?.mappings?.properties?.embedding?.dims ?? null,
+    model: index?.mappings?._meta?.embedding_model ?? null,
+    chunkIdType: index?.mappings?.properties?.chunk_id?.type ?? null,
+  };
+}
+
+/**
+ * Index settings and chunk field mappings
+ */
+function buildIndexMappings(dims: number, model: string): any {
+  return {
+    settings: {
+      number_of_shards: 1,
+      number_of_replicas: 0,
+      analysis: {
+        analyzer: {
+          // Diacritics folded away, for queries typed without them (see the folded subfields)
+          custom_text_analyzer: {
+            type: "custom",
+            tokenizer: "standard",
+            filter: ["lowercase", "asciifolding", "stop"],
+          },
+          // Diacritics kept: "phòng" and "phong" are different words
+          vietnamese_text_analyzer: {
+            type: "custom",
+            tokenizer: "standard",
+            filter: ["lowercase"],
+          },
+        },
+      },
+    },
+    mappings: {
+      // Embedding model the vectors come from, checked at startup
+      _meta: { embedding_model: model, embedding_dims: dims },
+      properties: {
+        document_id: { type: "long" },
+        // Built from document id, version and content hash (see assignChunkIds)
+        chunk_id: { type: "keyword" },
+        title: {
+          type: "text",
+          analyzer: "vietnamese_text_analyzer",
+          fields: {
+            keyword: { type: "keyword", ignore_above: 256 },
+            folded: { type: "text", analyzer: "custom_text_analyzer" },
+          },
+        },
+        chunk_text: {
+          type: "text",
+          analyzer: "vietnamese_text_analyzer",
+          // No keyword subfield to avoid ignore_above issues with long chunks
+          fields: { folded: { type: "text", analyzer: "custom_text_analyzer" } },
+        },
+        chunk_index: { type: "integer" },
+        // Chunker output (section title, overlap range); stored but not searchable
+        chunk_metadata: { type: "object", enabled: false },
+        owner_id: {
+          type: "keyword",
+        },
+        property_id: {
+          type: "integer",
+        },
+        kb_scope: {
+          type: "keyword",
+        },
+        // Chunker that produced the chunk, for comparing retrieval quality across strategies
+        chunking_strategy: {
+          type: "keyword",
+        },
+        // "listing" for documents generated from backend listing data, ranked below owner documents
+        document_source: {
+          type: "keyword",
+        },
+        // "property_header" marks the enrichment header chunk refreshed by property syncs
+        chunk_type: {
+          type: "keyword",
+        },
+        // Prices, utility rates and contract terms read from chunk_text (see rentalTerms)
+        rental_terms: {
+          properties: {
+            price: { type: "long" },
+            deposit: { type: "long" },
+            deposit_months: { type: "integer" },
+            electricity_per_kwh: { type: "long" },
+            water_rate: { type: "long" },
+            water_rate_unit: { type: "keyword" },
+            internet_fee: { type: "long" },
+            parking_fee: { type: "long" },
+            min_term_months: { type: "integer" },
+            notice_days: { type: "integer" },
+          },
+        },
+        // Lets re-processing skip chunks that haven't changed
+        content_hash: {
+          type: "keyword",
+        },
+        // Document version the chunk belongs to; only the active version is searchable
+        version: { type: "integer" },
+        is_active: { type: "boolean" },
+        embedding: {
+          type: "dense_vector",
+          dims,
+          index: true,
+          similarity: "cosine",
+        },
+        created_at: { type: "date" },
+      },
+    },
+  };
+}
+
+/**
+ * Create a chunk index for embeddings of the given model and size
+ */
+export async function createIndex(indexName: string, dims: number, model: string): Promise<void> {
+  await esClient.put(`/${indexName}`, buildIndexMappings(dims, model));
+  console.log(`[Elasticsearch] Successfully created index '${indexName}' (${dims} dims, ${model})`);
+}
+
+/**
+ * Map fields added to the chunk mapping since an existing index was created, before
+ * indexing new chunks maps them dynamically (as text instead of keyword, for instance)
+ * Subfields added to existing fields (the folded title and chunk_text) are mapped keeping
+ * the field's own analyzer, then filled in by an update by query running in the background
+ */
+async function addMissingFieldMappings(dims: number, model: string): Promise<void> {
+  const response = await esClient.get(`/${ES_INDEX_NAME}/_mapping`);
+  const existing: Record<string, any> = {};
+  for (const index of Object.values(response.data) as any[]) {
+    for (const [field, mapping] of Object.entries(index?.mappings?.properties || {})) {
+      existing[field] ??= mapping;
+    }
+  }
+
+  const { properties } = buildIndexMappings(dims, model).mappings;
+  const missing: Record<string, any> = {};
+  const missingSubfields: string[] = [];
+  for (const [field, mapping] of Object.entries(properties) as [string, any][]) {
+    const current = existing[field];
+    if (!current) {
+      missing[field] = mapping;
+      continue;
+    }
+    const subfields = Object.keys(mapping.fields || {}).filter(
+      (subfield) => !current.fields?.[subfield]
+    );
+    if (subfields.length > 0) {
+      // The main field's analyzer can't change; indexes created before the accented
+      // analyzer keep matching folded text there until rebuilt (migrate:embeddings)
+      missing[field] = { ...current, fields: { ...current.fields, ...mapping.fields } };
+      missingSubfields.push(...subfields.map((subfield) => `${field}.${subfield}`));
+    }
+  }
+  if (Object.keys(missing).length === 0) {
+    return;
+  }
+
+  await esClient.put(`/${ES_INDEX_NAME}/_mapping`, { properties: missing });
+  console.log(
+    `[Elasticsearch] Added mappings for ${Object.keys(missing).join(", ")} to '${ES_INDEX_NAME}'`
+  );
+
+  if (missingSubfields.length > 0) {
+    const task = await esClient.post(
+      `/${ES_INDEX_NAME}/_update_by_query?conflicts=proceed&wait_for_completion=false`,
+      { query: { match_all: {} } }
+    );
+    console.log(
+      `[Elasticsearch] Indexing ${missingSubfields.join(", ")} of existing chunks ` +
+        `(task ${task.data.task})`
+    );
+  }
+}
+
 /**
  * Create Elasticsearch index with proper mappings for document chunks
+ * An existing index must have been created for the same embedding model and dims
  */
-export async function createElasticsearchIndex(): Promise<boolean> {
+export async function createElasticsearchIndex(dims: number, model: string): Promise<boolean> {
   try {
     // Check if index already exists
     const checkResponse = await esClient.head(`/${ES_INDEX_NAME}`, {
@@ -35,73 +230,207 @@ export async function createElasticsearchIndex(): Promise<boolean> {
     });
 
     if (checkResponse.status === 200) {
-      console.log(`[Elasticsearch] Index '${ES_INDEX_NAME}' already exists`);
+      const info = await getIndexEmbeddingInfo();
+      if (info.dims !== null && info.dims !== dims) {
+        throw new EmbeddingMappingError(
+          `Index '${ES_INDEX_NAME}' stores ${info.dims}-dim embeddings but the embedding ` +
+            `provider produces ${dims}-dim vectors; re-index or change the provider`
+        );
+      }
+      if (info.model !== null && info.model !== model) {
+        throw new EmbeddingMappingError(
+          `Index '${ES_INDEX_NAME}' was embedded with ${info.model} but the embedding ` +
+            `provider uses ${model}; run the embedding migration or change the provider`
+        );
+      }
+
+      if (info.chunkIdType !== "keyword") {
+        console.warn(
+          `[Elasticsearch] Index '${ES_INDEX_NAME}' maps chunk_id as ${info.chunkIdType}; ` +
+            `new chunks can't be indexed until you run the chunk id migration (migrate:chunk-ids)`
+        );
+      }
+
+      await addMissingFieldMappings(dims, model);
+      console.log(`[Elasticsearch] Index '${ES_INDEX_NAME}' already exists (${info.dims} dims)`);
       return true;
     }
 
-    // Create index with mappings
-    const mappings = {
-      settings: {
-        number_of_shards: 1,
-        number_of_replicas: 0,
-        analysis: {
-          analyzer: {
-            custom_text_analyzer: {
-              type: "custom",
-              tokenizer: "standard",
-              filter: ["lowercase", "asciifolding", "stop"],
-            },
-          },
-        },
-      },
-      mappings: {
-        properties: {
-          document_id: { type: "integer" },
-          chunk_id: { type: "integer" },
-          title: {
-            type: "text",
-            analyzer: "custom_text_analyzer",
-            fields: { keyword: { type: "keyword", ignore_above: 256 } },
-          },
-          chunk_text: {
-            type: "text",
-            analyzer: "custom_text_analyzer",
-            // No keyword subfield to avoid ignore_above issues with long chunks
-          },
-          chunk_index: { type: "integer" },
-          owner_id: {
-            type: "keyword",
-          },
-          property_id: {
-            type: "integer",
-          },
-          embedding: {
-            type: "dense_vector",
-            dims: 384,
-            index: true,
-            similarity: "cosine",
-          },
-          created_at: { type: "date" },
-        },
-      },
-    };
-
-    await esClient.put(`/${ES_INDEX_NAME}`, mappings);
-    console.log(`[Elasticsearch] Successfully created index '${ES_INDEX_NAME}'`);
+    await createIndex(ES_INDEX_NAME!, dims, model);
     return true;
   } catch (error) {
+    if (error instanceof EmbeddingMappingError) {
+      throw error;
+    }
     const err = error as AxiosError;
     console.error("[Elasticsearch] Error creating index:", err.response?.data || err.message);
     throw error;
   }
 }
 
+/**
+ * Concrete indexes behind ES_INDEX_NAME when it is an alias, null when it is an index itself
+ */
+export async function getIndexAliasTargets(): Promise<string[] | null> {
+  const response = await esClient.get(`/_alias/${ES_INDEX_NAME}`, {
+    validateStatus: (status) => status === 200 || status === 404,
+  });
+  return response.status === 200 ? Object.keys(response.data) : null;
+}
+
+/**
+ * Point ES_INDEX_NAME at newIndex in one atomic _aliases call
+ * A concrete index named ES_INDEX_NAME is deleted in the same call so the alias can take its name
+ */
+export async function swapIndexAlias(newIndex: string): Promise<string[]> {
+  const targets = await getIndexAliasTargets();
+  const actions: any[] = targets
+    ? targets.map((index) => ({ remove: { index, alias: ES_INDEX_NAME } }))
+    : [{ remove_index: { index: ES_INDEX_NAME } }];
+  actions.push({ add: { index: newIndex, alias: ES_INDEX_NAME } });
+
+  await esClient.post(`/_aliases`, { actions });
+  console.log(`[Elasticsearch] Alias '${ES_INDEX_NAME}' now points to '${newIndex}'`);
+  return targets || [];
+}
+
+/**
+ * Walk every chunk matching a query with the scroll API, a batch at a time
+ * Pass source: false when only the ids are needed
+ */
+export async function scrollChunks(
+  indexName: string,
+  query: any,
+  batchSize: number,
+  onBatch: (hits: { _id: string; _source: ESChunk }[]) => Promise<void>,
+  source: boolean = true
+): Promise<number> {
+  let response = await esClient.post(`/${indexName}/_search?scroll=5m`, {
+    query,
+    size: batchSize,
+    sort: ["_doc"],
+    _source: source,
+  });
+  let scrollId: string = response.data._scroll_id;
+  let total = 0;
+
+  try {
+    while (response.data.hits.hits.length > 0) {
+      await onBatch(response.data.hits.hits);
+      total += response.data.hits.hits.length;
+
+      response = await esClient.post(`/_search/scroll`, { scroll: "5m", scroll_id: scrollId });
+      scrollId = response.data._scroll_id;
+    }
+  } finally {
+    await esClient.delete(`/_search/scroll`, { data: { scroll_id: scrollId } }).catch(() => {});
+  }
+
+  return total;
+}
+
+/**
+ * Ids (of those given) that don't exist in an index
+ */
+export async function findMissingChunkIds(indexName: string, ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+
+  const response = await esClient.post(`/${indexName}/_mget?_source=false`, { ids });
+  return response.data.docs.filter((doc: any) => !doc.found).map((doc: any) => doc._id);
+}
+
+/**
+ * Delete chunks by id from an index
+ */
+export async function deleteChunksByIds(indexName: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  await esClient.post(
+    `/_bulk`,
+    ids.map((id) => JSON.stringify({ delete: { _index: indexName, _id: id } })).join("\n") + "\n",
+    { headers: { "Content-Type": "application/x-ndjson" } }
+  );
+}
+
+/**
+ * Number of chunks in an index
+ */
+export async function countChunks(indexName: string = ES_INDEX_NAME!): Promise<number> {
+  const response = await esClient.get(`/${indexName}/_count`);
+  return response.data.count;
+}
+
+/**
+ * Distinct values of a chunk field among the chunks matching a query, paged with a
+ * composite aggregation
+ */
+async function listDistinctValues(indexName: string, field: string, query: any): Promise<any[]> {
+  const values: any[] = [];
+  let after: any;
+
+  do {
+    const response = await esClient.post(`/${indexName}/_search`, {
+      query,
+      size: 0,
+      aggs: {
+        values: {
+          composite: {
+            size: 1000,
+            sources: [{ [field]: { terms: { field } } }],
+            ...(after && { after }),
+          },
+        },
+      },
+    });
+    const aggregation = response.data.aggregations.values;
+
+    values.push(...aggregation.buckets.map((bucket: any) => bucket.key[field]));
+    after = aggregation.buckets.length > 0 ? aggregation.after_key : undefined;
+  } while (after);
+
+  return values;
+}
+
+/**
+ * Distinct document ids of the chunks matching a query
+ */
+export function listChunkDocumentIds(
+  indexName: string,
+  query: any = { match_all: {} }
+): Promise<number[]> {
+  return listDistinctValues(indexName, "document_id", query);
+}
+
+/**
+ * Make recent writes visible to search
+ */
+export async function refreshIndex(indexName: string = ES_INDEX_NAME!): Promise<void> {
+  await esClient.post(`/${indexName}/_refresh`);
+}
+
+/**
+ * Delete an index (used to drop indexes replaced by a migration)
+ */
+export async function deleteIndex(indexName: string): Promise<void> {
+  await esClient.delete(`/${indexName}`);
+  console.log(`[Elasticsearch] Deleted index '${indexName}'`);
+}
+
+/**
+ * Searches only see chunks of each document's active version
+ * (chunks indexed before versioning have no is_active field)
+ */
+export const ACTIVE_CHUNKS_FILTER = { bool: { must_not: [{ term: { is_active: false } }] } };
+
 /**
  * Index a document chunk in Elasticsearch
  */
 export async function indexChunk(chunkData: ESChunk): Promise<any> {
   try {
-    const response = await esClient.post(`/${ES_INDEX_NAME}/_doc/${chunkData.chunk_id}`, chunkData);
+    const response = await esClient.post(
+      `/${ES_INDEX_NAME}/_doc/${encodeURIComponent(chunkData.chunk_id)}`,
+      chunkData
+    );
     return response.data;
   } catch (error) {
     const err = error as AxiosError;
@@ -113,12 +442,19 @@ export async function indexChunk(chunkData: ESChunk): Promise<any> {
 /**
  * Bulk index multiple document chunks
  */
-export async function bulkIndexChunks(chunks: ESChunk[]): Promise<any> {
+export async function bulkIndexChunks(
+  chunks: ESChunk[],
+  indexName: string = ES_INDEX_NAME!
+): Promise<any> {
+  if (chunks.length === 0) {
+    return { errors: false, items: [] };
+  }
+
   try {
     const bulkBody: any[] = [];
 
     for (const chunk of chunks) {
-      bulkBody.push({ index: { _index: ES_INDEX_NAME, _id: chunk.chunk_id } });
+      bulkBody.push({ index: { _index: indexName, _id: chunk.chunk_id } });
       bulkBody.push(chunk);
     }
 
@@ -140,6 +476,261 @@ export async function bulkIndexChunks(chunks: ESChunk[]): Promise<any> {
   }
 }
 
+/**
+ * Chunks of a document's searchable version with their embeddings, by chunk_index
+ * (chunks indexed before versioning have no is_active field and count as active)
+ */
+export async function getActiveDocumentChunks(
+  documentId: number
+): Promise<Pick<ESChunk, "chunk_id" | "chunk_index" | "content_hash" | "embedding">[]> {
+  try {
+    const response = await esClient.post(
+      `/${ES_INDEX_NAME}/_search`,
+      {
+        query: {
+          bool: { filter: [{ term: { document_id: documentId } }, ACTIVE_CHUNKS_FILTER] },
+        },
+        size: 10000,
+        sort: [{ chunk_index: "asc" }],
+        _source: ["chunk_id", "chunk_index", "content_hash", "embedding"],
+      },
+      { validateStatus: (status) => status === 200 || status === 404 }
+    );
+
+    // No index yet means no chunks yet
+    if (response.status === 404) {
+      return [];
+    }
+    return response.data.hits.hits.map((hit: any) => hit._source);
+  } catch (error) {
+    const err = error as AxiosError;
+    console.error(
+      `[Elasticsearch] Error getting active chunks for document ${documentId}:`,
+      err.response?.data || err.message
+    );
+    throw error;
+  }
+}
+
+/**
+ * Chunk texts of one version of a document, in order
+ */
+export async function getDocumentVersionChunks(
+  documentId: number,
+  version: number
+): Promise<Pick<ESChunk, "chunk_id" | "chunk_index" | "chunk_text" | "content_hash">[]> {
+  const response = await esClient.post(`/${ES_INDEX_NAME}/_search`, {
+    query: {
+      bool: {
+        filter: [{ term: { document_id: documentId } }, { term: { version } }],
+      },
+    },
+    size: 10000,
+    sort: [{ chunk_index: "asc" }],
+    _source: ["chunk_id", "chunk_index", "chunk_text", "content_hash"],
+  });
+  return response.data.hits.hits.map((hit: any) => hit._source);
+}
+
+/**
+ * Make one version of a document searchable and hide all others
+ * (chunks indexed before versioning have no version and are hidden too)
+ * Chunks the update skips (version conflicts) or fails on are flipped again, only chunks
+ * whose is_active is still wrong being updated; throws if some remain after the last attempt
+ */
+export async function setActiveDocumentVersion(documentId: number, version: number): Promise<void> {
+  // Chunks of the new version were just bulk indexed
+  await refreshIndex();
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await esClient.post(
+      `/${ES_INDEX_NAME}/_update_by_query?refresh=true&conflicts=proceed`,
+      {
+        query: {
+          bool: {
+            filter: [{ term: { document_id: documentId } }],
+            should: [
+              // The version's chunks not yet active, other chunks not yet hidden
+              {
+                bool: {
+                  filter: [{ term: { version } }],
+                  must_not: [{ term: { is_active: true } }],
+                },
+              },
+              { bool: { must_not: [{ term: { version } }, { term: { is_active: false } }] } },
+            ],
+            minimum_should_match: 1,
+          },
+        },
+        script: {
+          source: "ctx._source.is_active = ctx._source.version == params.version",
+          lang: "painless",
+          params: { version },
+        },
+      }
+    );
+
+    const failures: unknown[] = response.data.failures || [];
+    const conflicts: number = response.data.version_conflicts || 0;
+    if (failures.length === 0 && conflicts === 0) {
+      return;
+    }
+    if (attempt >= ACTIVATION_ATTEMPTS) {
+      throw new Error(
+        `Activating version ${version} of document ${documentId} left ${conflicts} chunk(s) ` +
+          `in conflict and ${failures.length} failed`
+      );
+    }
+    console.warn(
+      `[Elasticsearch] Activating version ${version} of document ${documentId}: ` +
+        `${conflicts} conflict(s), ${failures.length} failure(s); retrying`
+    );
+  }
+}
+
+/**
+ * Assign a version to a document's chunks indexed before versioning
+ * Returns how many chunks were tagged
+ */
+export async function tagUnversionedChunks(documentId: number, version: number): Promise<number> {
+  const response = await esClient.post(
+    `/${ES_INDEX_NAME}/_update_by_query?refresh=true&conflicts=proceed`,
+    {
+      query: {
+        bool: {
+          filter: [{ term: { document_id: documentId } }],
+          must_not: [{ exists: { field: "version" } }],
+        },
+      },
+      script: {
+        source: "ctx._source.version = params.version; ctx._source.is_active = true",
+        lang: "painless",
+        params: { version },
+      },
+    },
+    { validateStatus: (status) => status === 200 || status === 404 }
+  );
+  return response.status === 200 ? response.data.updated : 0;
+}
+
+/**
+ * Documents with property header chunks for a property, in any indexed version
+ */
+export function listPropertyHeaderDocumentIds(propertyId: number): Promise<number[]> {
+  return listChunkDocumentIds(ES_INDEX_NAME!, {
+    bool: {
+      filter: [
+        { term: { property_id: propertyId } },
+        { term: { chunk_type: "property_header" } },
+      ],
+    },
+  });
+}
+
+/**
+ * Property header chunks of one document for a property, every indexed version
+ * (see buildPropertyHeaderChunks)
+ */
+export async function getDocumentHeaderChunks(
+  documentId: number,
+  propertyId: number
+): Promise<{ _id: string; _source: ESChunk }[]> {
+  const response = await esClient.post(`/${ES_INDEX_NAME}/_search`, {
+    query: {
+      bool: {
+        filter: [
+          { term: { document_id: documentId } },
+          { term: { property_id: propertyId } },
+          { term: { chunk_type: "property_header" } },
+        ],
+      },
+    },
+    size: 10000,
+    sort: [{ chunk_index: "asc" }],
+  });
+  return response.data.hits.hits;
+}
+
+/**
+ * Active chunks of a property that state rental terms, embeddings left out
+ */
+export async function getPropertyTermChunks(propertyId: number): Promise<ESChunk[]> {
+  const response = await esClient.post(`/${ES_INDEX_NAME}/_search`, {
+    query: {
+      bool: {
+        filter: [
+          { term: { property_id: propertyId } },
+          { exists: { field: "rental_terms" } },
+          ACTIVE_CHUNKS_FILTER,
+        ],
+      },
+    },
+    size: 1000,
+    sort: [{ document_id: "asc" }, { chunk_index: "asc" }],
+    _source: { excludes: ["embedding"] },
+  });
+  return response.data.hits.hits.map((hit: any) => hit._source);
+}
+
+/**
+ * Properties that have header chunks, in any indexed version
+ */
+export function listHeaderPropertyIds(): Promise<number[]> {
+  return listDistinctValues(ES_INDEX_NAME!, "property_id", {
+    bool: { filter: [{ term: { chunk_type: "property_header" } }] },
+  });
+}
+
+/**
+ * Index some chunks and delete others in one bulk request, so searches never see both
+ */
+export async function replaceChunks(chunks: ESChunk[], deleteIds: string[]): Promise<any> {
+  const bulkBody: any[] = [];
+
+  for (const chunk of chunks) {
+    bulkBody.push({ index: { _index: ES_INDEX_NAME, _id: chunk.chunk_id } });
+    bulkBody.push(chunk);
+  }
+  for (const id of deleteIds) {
+    bulkBody.push({ delete: { _index: ES_INDEX_NAME, _id: id } });
+  }
+  if (bulkBody.length === 0) {
+    return { errors: false, items: [] };
+  }
+
+  const response = await esClient.post(
+    `/_bulk?refresh=true`,
+    bulkBody.map((item) => JSON.stringify(item)).join("\n") + "\n",
+    { headers: { "Content-Type": "application/x-ndjson" } }
+  );
+  if (response.data.errors) {
+    console.error("[Elasticsearch] Chunk replacement had errors:", response.data.items);
+  }
+  return response.data;
+}
+
+/**
+ * Delete the chunks of some versions of a document
+ */
+export async function deleteDocumentVersionChunks(
+  documentId: number,
+  versions: number[]
+): Promise<number> {
+  if (versions.length === 0) return 0;
+
+  const response = await esClient.post(
+    `/${ES_INDEX_NAME}/_delete_by_query?refresh=true&conflicts=proceed`,
+    {
+      query: {
+        bool: {
+          filter: [{ term: { document_id: documentId } }, { terms: { version: versions } }],
+        },
+      },
+    }
+  );
+  return response.data.deleted || 0;
+}
+
 /**
  * Search for similar chunks using text search with optional filters
  */
@@ -153,14 +744,14 @@ export async function textSearch(
       {
         multi_match: {
           query: query,
-          fields: ["chunk_text^2", "title"],
+          fields: ["chunk_text^2", "chunk_text.folded", "title", "title.folded"],
           type: "best_fields",
           fuzziness: "AUTO",
         },
       },
     ];
 
-    const filter: any[] = [];
+    const filter: any[] = [ACTIVE_CHUNKS_FILTER];
     if (filters?.owner_id) {
       filter.push({ term: { owner_id: filters.owner_id } });
     }
@@ -184,6 +775,7 @@ export async function textSearch(
         "chunk_index",
         "owner_id",
         "property_id",
+        "document_source",
       ],
     };
 
@@ -211,7 +803,7 @@ export async function vectorSearch(
   filters?: { owner_id?: string; property_id?: number }
 ): Promise<ESSearchResult[]> {
   try {
-    const filter: any[] = [];
+    const filter: any[] = [ACTIVE_CHUNKS_FILTER];
     if (filters?.owner_id) {
       filter.push({ term: { owner_id: filters.owner_id } });
     }
@@ -236,6 +828,7 @@ export async function vectorSearch(
         "chunk_index",
         "owner_id",
         "property_id",
+        "document_source",
       ],
     };
 
@@ -263,7 +856,7 @@ export async function hybridSearch(
   filters?: { owner_id?: string; property_id?: number }
 ): Promise<ESSearchResult[]> {
   try {
-    const filter: any[] = [];
+    const filter: any[] = [ACTIVE_CHUNKS_FILTER];
     if (filters?.owner_id) {
       filter.push({ term: { owner_id: filters.owner_id } });
     }
@@ -278,7 +871,7 @@ export async function hybridSearch(
             {
               multi_match: {
                 query: query,
-                fields: ["chunk_text^2", "title"],
+                fields: ["chunk_text^2", "chunk_text.folded", "title", "title.folded"],
                 type: "best_fields",
                 fuzziness: "AUTO",
               },
@@ -303,6 +896,7 @@ export async function hybridSearch(
         "chunk_index",
         "owner_id",
         "property_id",
+        "document_source",
       ],
     };
 
@@ -325,7 +919,10 @@ export async function hybridSearch(
  * Removes all chunks associated with a document_id using delete_by_query
  * Works with semantic chunking - deletes ALL chunks regardless of count
  */
-export async function deleteDocumentChunks(documentId: number): Promise<any> {
+export async function deleteDocumentChunks(
+  documentId: number,
+  indexName: string = ES_INDEX_NAME!
+): Promise<any> {
   try {
     console.log(`[Elasticsearch] Deleting all chunks for document ${documentId}...`);
 
@@ -337,7 +934,7 @@ export async function deleteDocumentChunks(documentId: number): Promise<any> {
 
     // Use refresh=true to make deletions immediately visible
     const response = await esClient.post(
-      `/${ES_INDEX_NAME}/_delete_by_query?refresh=true&conflicts=proceed`,
+      `/${indexName}/_delete_by_query?refresh=true&conflicts=proceed`,
       deleteBody
     );
 
@@ -8,8 +8,21 @@ import dotenv from "dotenv";
 import express, { Request, Response, NextFunction } from "express";
 import { Pool } from "pg";
 import cors from "cors";
-import { createElasticsearchIndex, checkHealth } from "./elasticsearchClient";
+import {
+  createElasticsearchIndex,
+  checkHealth,
+  EmbeddingMappingError,
+} from "./elasticsearchClient";
 import { initializeEmbeddingModel } from "./service/documentService";
+import { initializeDocumentVersions } from "./service/documentVersions";
+import { initializeListingDocuments } from "./service/listingDocuments";
+import { getEmbeddingCacheStats, initializeEmbeddingCache } from "./service/embeddingCache";
+import { getEmbeddingPoolStats } from "./service/embeddingPool";
+import { getEmbeddingProvider } from "./service/embeddingProvider";
+import { startPropertyReconciler } from "./service/propertySync";
+import { initializeIngestionQueue, resumeInterruptedJobs } from "./service/ingestionQueue";
+import { initializeSectionPatterns } from "./service/sectionPatterns";
+import { initializeWebhooks } from "./service/webhooks";
 import { createRAGRoutes } from "./routes";
 import { validateApiKey, requestLogger, extractKBContext } from "./middleware/auth";
 
@@ -44,6 +57,30 @@ async function initializeRAGSystem(): Promise<boolean> {
     console.log("[RAG Service] Database connected successfully");
     client.release();
 
+    // Persistent tier of the embedding cache
+    await initializeEmbeddingCache(pool);
+
+    // Load section patterns (default file + per-owner overrides table)
+    await initializeSectionPatterns(pool);
+
+    // Document version history (resumed ingestion jobs create versions)
+    await initializeDocumentVersions(pool);
+
+    // Hashes of generated listing documents (see the property reconciler)
+    await initializeListingDocuments(pool);
+
+    // Webhook subscriptions and deliveries (before resumed jobs emit events)
+    await initializeWebhooks(pool);
+
+    // Prepare background ingestion jobs (interrupted jobs resume once the index exists)
+    await initializeIngestionQueue(pool);
+
+    // Initialize embedding model first: the index mapping takes its dimensions
+    // (this may take a few minutes on first run)
+    console.log("[RAG Service] Loading embedding model...");
+    const embeddingProvider = await initializeEmbeddingModel();
+    console.log("[RAG Service] Embedding model loaded successfully");
+
     // Check Elasticsearch health
     const esHealth = await checkHealth();
     if (esHealth) {
@@ -52,20 +89,25 @@ async function initializeRAGSystem(): Promise<boolean> {
         esHealth.cluster_name || esHealth.name || "Connected"
       );
 
-      // Create Elasticsearch index
-      await createElasticsearchIndex();
+      // Create Elasticsearch index (or check the existing one matches the provider)
+      await createElasticsearchIndex(embeddingProvider.dims, embeddingProvider.model);
+
+      // Jobs interrupted by a restart, now that chunks have a mapped index to go to
+      await resumeInterruptedJobs();
+
+      // Periodically refresh property header chunks from the backend
+      startPropertyReconciler();
     } else {
       console.warn("[RAG Service] Elasticsearch is not available. Vector search will be limited.");
     }
 
-    // Initialize embedding model (this may take a few minutes on first run)
-    console.log("[RAG Service] Loading embedding model...");
-    await initializeEmbeddingModel();
-    console.log("[RAG Service] Embedding model loaded successfully");
-
     console.log("[RAG Service] Initialization complete");
     return true;
   } catch (error) {
+    // Refuse to start rather than mix vectors the index wasn't built for
+    if (error instanceof EmbeddingMappingError) {
+      throw error;
+    }
     console.error("[RAG Service] Initialization error:", (error as Error).message);
     console.warn("[RAG Service] Some features may not work properly");
     return false;
@@ -125,12 +167,21 @@ app.get("/health", async (_req: Request, res: Response) => {
       ? esHealth.cluster_name || esHealth.name || "connected"
       : "disconnected";
 
+    const embeddingProvider = getEmbeddingProvider();
+
     res.json({
       status: "running",
       service: "RAG Service",
       timestamp: new Date().toISOString(),
       database: dbStatus,
       elasticsearch: esStatus,
+      embedding_provider: {
+        name: embeddingProvider.name,
+        model: embeddingProvider.model,
+        dims: embeddingProvider.dims,
+      },
+      embedding_pool: getEmbeddingPoolStats(),
+      embedding_cache: getEmbeddingCacheStats(),
       version: "1.0.0",
     });
   } catch (error) {
@@ -152,11 +203,34 @@ app.get("/", (_req: Request, res: Response) => {
       health: "GET /health",
       documents: {
         upload: "POST /api/documents/upload",
+        preview: "POST /api/documents/preview",
+        processUrl: "POST /api/documents/process-url",
+        job: "GET /api/documents/jobs/:id",
         list: "GET /api/documents",
         get: "GET /api/documents/:id",
         delete: "DELETE /api/documents/:id",
+        versions: "GET /api/documents/:id/versions",
+        versionDiff: "GET /api/documents/:id/versions/diff?from=&to=",
+        rollback: "POST /api/documents/:id/versions/:version/rollback",
       },
       search: "POST /api/search",
+      properties: {
+        sync: "POST /api/properties/:id/sync",
+        terms: "GET /api/properties/:id/terms",
+      },
+      webhooks: {
+        list: "GET /api/webhooks",
+        subscribe: "POST /api/webhooks",
+        delete: "DELETE /api/webhooks/:id",
+        deliveries: "GET /api/webhooks/deliveries",
+        replay: "POST /api/webhooks/deliveries/:id/replay",
+        replayDead: "POST /api/webhooks/deliveries/replay",
+      },
+      admin: {
+        sectionPatterns: "GET /api/admin/section-patterns",
+        testSectionPatterns: "POST /api/admin/section-patterns/test",
+        ownerSectionPatterns: "GET|PUT|DELETE /api/admin/section-patterns/:ownerId",
+      },
       chat: {
         createSession: "POST /api/chat/sessions",
         getHistory: "GET /api/chat/sessions/:sessionId",
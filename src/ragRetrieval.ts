@@ -3,9 +3,15 @@
  * Uses Elasticsearch for vector search and document retrieval
  */
 
-import { generateEmbedding } from "./service/documentService";
-import { vectorSearch, hybridSearch, textSearch } from "./elasticsearchClient";
+import { generateEmbedding, generateEmbeddings } from "./service/documentService";
+import {
+  ACTIVE_CHUNKS_FILTER,
+  vectorSearch,
+  hybridSearch,
+  textSearch,
+} from "./elasticsearchClient";
 import { RetrievalOptions, SearchResult } from "./types";
+import { foldVietnamese, normalizeVietnamese } from "./service/vietnameseText";
 
 /**
  * Retrieve relevant chunks from Elasticsearch with property/owner filtering
@@ -58,27 +64,48 @@ async function retrieveFromElasticsearch(
 
 /**
  * Retrieve relevant chunks using Elasticsearch only
+ * Several phrasings of a question can be passed as an array; their embeddings are
+ * generated in one batch and the results merged
  */
 export async function retrieveRelevantChunks(
-  query: string,
+  query: string | string[],
   options: RetrievalOptions = {}
 ): Promise<SearchResult[]> {
   const { topK = 5, minScore = 0.7, searchType = "hybrid", rerank = true } = options;
+  // Queries are normalized like indexed text; the folded fields match them without diacritics
+  const queries = (Array.isArray(query) ? query : [query])
+    .filter((text) => text.trim())
+    .map(normalizeVietnamese);
+  const combinedQuery = queries.join(" ");
 
   try {
-    console.log(`[RAG Retrieval] Retrieving chunks for query: "${query.substring(0, 100)}..."`);
-
-    // Generate embedding for query
-    const queryEmbedding = await generateEmbedding(query);
+    console.log(
+      `[RAG Retrieval] Retrieving chunks for ${queries.length} query(s): "${combinedQuery.substring(
+        0,
+        100
+      )}..."`
+    );
+
+    // Generate embeddings for all queries (text search needs none)
+    const queryEmbeddings =
+      searchType === "text"
+        ? queries.map(() => null)
+        : await generateEmbeddings(queries, { batchSize: queries.length, priority: "query" });
 
     // Retrieve from Elasticsearch (primary source for vector search)
-    const esResults = await retrieveFromElasticsearch(query, queryEmbedding, {
-      topK: Math.ceil(topK * 1.5),
-      minScore,
-      searchType,
-      ownerId: options.ownerId,
-      propertyId: options.propertyId,
-    });
+    const resultsPerQuery = await Promise.all(
+      queries.map((text, i) =>
+        retrieveFromElasticsearch(text, queryEmbeddings[i], {
+          topK: Math.ceil(topK * 1.5),
+          minScore,
+          searchType,
+          ownerId: options.ownerId,
+          propertyId: options.propertyId,
+        })
+      )
+    );
+    const esResults =
+      resultsPerQuery.length === 1 ? resultsPerQuery[0] : deduplicateChunks(resultsPerQuery.flat());
 
     if (esResults.length === 0) {
       console.log("[RAG Retrieval] No results found in Elasticsearch");
@@ -91,11 +118,11 @@ export async function retrieveRelevantChunks(
     // Rerank if requested
     let finalChunks: SearchResult[] = enrichedChunks;
     if (rerank && enrichedChunks.length > topK) {
-      finalChunks = rerankChunks(enrichedChunks, query);
+      finalChunks = rerankChunks(enrichedChunks, combinedQuery);
     }
 
-    // Return top K results
-    const topChunks = finalChunks.slice(0, topK);
+    // Return top K results, listing-generated chunks only filling slots owner documents leave
+    const topChunks = rankListingChunksLast(finalChunks).slice(0, topK);
 
     console.log(`[RAG Retrieval] Retrieved ${topChunks.length} relevant chunks`);
 
@@ -106,11 +133,22 @@ export async function retrieveRelevantChunks(
   }
 }
 
+/**
+ * Move chunks of generated listing documents after those of owner-uploaded documents,
+ * keeping the order within each group
+ */
+export function rankListingChunksLast(chunks: SearchResult[]): SearchResult[] {
+  return [
+    ...chunks.filter((chunk) => chunk.document_source !== "listing"),
+    ...chunks.filter((chunk) => chunk.document_source === "listing"),
+  ];
+}
+
 /**
  * Deduplicate chunks based on chunk_id
  */
 export function deduplicateChunks(chunks: SearchResult[]): SearchResult[] {
-  const seen = new Set<number>();
+  const seen = new Set<string>();
   const unique: SearchResult[] = [];
 
   for (const chunk of chunks) {
@@ -132,16 +170,17 @@ export function deduplicateChunks(chunks: SearchResult[]): SearchResult[] {
 
 /**
  * Simple reranking based on keyword matching and score
+ * Words are compared without diacritics, so "phong" matches "phòng"
  */
 export function rerankChunks(chunks: SearchResult[], query: string): SearchResult[] {
-  const queryWords = query.toLowerCase().split(/\s+/);
+  const queryWords = foldVietnamese(query.toLowerCase()).split(/\s+/);
 
   return chunks
     .map((chunk) => {
       let rerankScore = chunk.similarity_score || chunk.score || 0;
 
       // Boost score based on keyword matches
-      const chunkText = chunk.chunk_text.toLowerCase();
+      const chunkText = foldVietnamese(chunk.chunk_text.toLowerCase());
       let keywordMatches = 0;
 
       for (const word of queryWords) {
@@ -224,11 +263,12 @@ export async function searchWithFilters(
     const ES_INDEX_NAME = process.env.ES_INDEX_NAME || "documents_chunks";
 
     // Generate embedding
+    query = normalizeVietnamese(query);
     const queryEmbedding = await generateEmbedding(query);
 
     // Build Elasticsearch query with filters
     const must: any[] = [];
-    const filter: any[] = [];
+    const filter: any[] = [ACTIVE_CHUNKS_FILTER];
 
     if (documentIds.length > 0) {
       filter.push({ terms: { document_id: documentIds } });
@@ -246,7 +286,7 @@ export async function searchWithFilters(
       must.push({
         multi_match: {
           query: query,
-          fields: ["chunk_text^2", "document_title"],
+          fields: ["chunk_text^2", "chunk_text.folded", "document_title"],
           type: "best_fields",
           fuzziness: "AUTO",
         },
@@ -261,7 +301,14 @@ export async function searchWithFilters(
         },
       },
       size: topK,
-      _source: ["document_id", "chunk_id", "document_title", "chunk_text", "chunk_index"],
+      _source: [
+        "document_id",
+        "chunk_id",
+        "document_title",
+        "chunk_text",
+        "chunk_index",
+        "document_source",
+      ],
     };
 
     // Add vector search if needed
@@ -277,11 +324,13 @@ export async function searchWithFilters(
 
     const response = await axios.post(`${ES_HOST}/${ES_INDEX_NAME}/_search`, searchBody);
 
-    return response.data.hits.hits.map((hit: any) => ({
-      ...hit._source,
-      score: hit._score,
-      source: "elasticsearch",
-    }));
+    return rankListingChunksLast(
+      response.data.hits.hits.map((hit: any) => ({
+        ...hit._source,
+        score: hit._score,
+        source: "elasticsearch",
+      }))
+    );
   } catch (error) {
     console.error("[RAG Retrieval] Error in filtered search:", (error as Error).message);
     throw error;
@@ -3,6 +3,9 @@ import { Pool } from "pg";
 import { createDocumentRoutes } from "./routes/documentRoutes";
 import { createRetrievalRoutes } from "./routes/retrievalRoutes";
 import { createChatRoutes } from "./routes/chatRoutes";
+import { createAdminRoutes } from "./routes/adminRoutes";
+import { createPropertyRoutes } from "./routes/propertyRoutes";
+import { createWebhookRoutes } from "./routes/webhookRoutes";
 
 /**
  * Create RAG routes
@@ -15,6 +18,9 @@ export function createRAGRoutes(pool: Pool): Router {
   router.use("/search", createRetrievalRoutes());
   router.use("/retrieve", createRetrievalRoutes());
   router.use("/chat", createChatRoutes());
+  router.use("/admin", createAdminRoutes());
+  router.use("/properties", createPropertyRoutes());
+  router.use("/webhooks", createWebhookRoutes());
 
   return router;
 }
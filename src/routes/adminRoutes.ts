@@ -0,0 +1,161 @@
+/**
+ * Admin Routes
+ * Manages section pattern sets used by the semantic chunker
+ */
+
+import { Router, Request, Response } from "express";
+import { ZodError } from "zod";
+import { detectSemanticSections } from "../service/documentService";
+import {
+  deleteOwnerSectionPatternSet,
+  getDefaultSectionPatternSet,
+  getOwnerSectionPatternSet,
+  getSectionPatterns,
+  parseSectionPatternSet,
+  resolveSectionPatterns,
+  saveOwnerSectionPatternSet,
+} from "../service/sectionPatterns";
+
+/**
+ * Answer a pattern set validation error with 400 and the zod issues
+ */
+function sendValidationError(res: Response, error: ZodError): void {
+  res.status(400).json({
+    error: "Invalid section pattern set",
+    details: error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message,
+    })),
+  });
+}
+
+/**
+ * Create admin routes
+ */
+export function createAdminRoutes(): Router {
+  const router = Router();
+
+  /**
+   * GET /api/admin/section-patterns
+   * Get the default section pattern set
+   */
+  router.get("/section-patterns", (_req: Request, res: Response) => {
+    try {
+      res.json(getDefaultSectionPatternSet());
+    } catch (error) {
+      console.error("[RAG API] Error getting section patterns:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * POST /api/admin/section-patterns/test
+   * Run a pattern set against sample text and report detected sections and capture rate
+   * Body: { text, patterns?, mode?, owner_id? } - without patterns, the owner's (or default) set is used
+   */
+  router.post("/section-patterns/test", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const { text, patterns, mode, owner_id } = req.body;
+
+      if (!text || typeof text !== "string") {
+        return res.status(400).json({ error: "text is required" });
+      }
+
+      const sectionPatterns = patterns
+        ? resolveSectionPatterns(parseSectionPatternSet({ mode, patterns }))
+        : await getSectionPatterns(owner_id?.toString());
+
+      const sections = detectSemanticSections(text, sectionPatterns).sort(
+        (a, b) => a.start - b.start
+      );
+      const matchedChars = sections
+        .filter((section) => section.matched)
+        .reduce((sum, section) => sum + section.content.length, 0);
+
+      res.json({
+        pattern_count: sectionPatterns.length,
+        text_length: text.length,
+        matched_chars: matchedChars,
+        capture_rate: Math.round((matchedChars / text.length) * 1000) / 10,
+        unmatched_sections: sections.filter((section) => !section.matched).length,
+        sections: sections.map((section) => ({
+          title: section.title,
+          priority: section.priority,
+          matched: section.matched,
+          start: section.start,
+          end: section.start + section.content.length,
+          content: section.content,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return sendValidationError(res, error);
+      }
+      console.error("[RAG API] Error testing section patterns:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * GET /api/admin/section-patterns/:ownerId
+   * Get an owner's pattern set override
+   */
+  router.get("/section-patterns/:ownerId", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const patternSet = await getOwnerSectionPatternSet(req.params.ownerId);
+
+      if (!patternSet) {
+        return res.status(404).json({ error: "No section patterns stored for this owner" });
+      }
+
+      res.json({ owner_id: req.params.ownerId, ...patternSet });
+    } catch (error) {
+      console.error("[RAG API] Error getting owner section patterns:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * PUT /api/admin/section-patterns/:ownerId
+   * Store an owner's pattern set override
+   * Body: { mode: "extend" | "replace", patterns: [{ title, priority, regex, flags? }] }
+   */
+  router.put("/section-patterns/:ownerId", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const patternSet = parseSectionPatternSet(req.body);
+      await saveOwnerSectionPatternSet(req.params.ownerId, patternSet);
+
+      console.log(
+        `[RAG API] Stored ${patternSet.patterns.length} section patterns (${patternSet.mode}) for owner ${req.params.ownerId}`
+      );
+      res.json({ success: true, owner_id: req.params.ownerId, ...patternSet });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return sendValidationError(res, error);
+      }
+      console.error("[RAG API] Error saving section patterns:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/section-patterns/:ownerId
+   * Remove an owner's override so the defaults apply again
+   */
+  router.delete("/section-patterns/:ownerId", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const deleted = await deleteOwnerSectionPatternSet(req.params.ownerId);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "No section patterns stored for this owner" });
+      }
+
+      res.json({ success: true, owner_id: req.params.ownerId });
+    } catch (error) {
+      console.error("[RAG API] Error deleting section patterns:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  return router;
+}
@@ -3,40 +3,311 @@
  * Handles all document-related API endpoints
  */
 
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
 import { Pool } from "pg";
-import { getDocuments, processDocumentFromUrl } from "../service/documentService";
+import multer from "multer";
+import {
+  getDocuments,
+  processUploadedDocument,
+  resolveUploadContentType,
+} from "../service/documentService";
+import { detectContentType, SUPPORTED_UPLOAD_TYPES } from "../service/formatDetector";
+import { getChunkingStrategy, listChunkingStrategies } from "../service/chunkingStrategies";
+import { enqueueProcessUrlJob, getJob } from "../service/ingestionQueue";
+import { previewChunks, previewFileChunks } from "../service/chunkPreview";
+import { validateRemoteUrl } from "../service/remoteFetch";
+import { emitWebhookEvent } from "../service/webhooks";
+import { PII_POLICIES } from "../service/piiScanner";
+import { PiiPolicy } from "../types";
+import {
+  deleteDocumentVersions,
+  diffDocumentVersions,
+  getDocumentVersion,
+  listDocumentVersions,
+  rollbackDocumentVersion,
+} from "../service/documentVersions";
 import { deleteDocumentChunks } from "../elasticsearchClient";
 import { getDocumentContext } from "../ragRetrieval";
 
+const MAX_UPLOAD_SIZE_MB = parseInt(process.env.RAG_MAX_UPLOAD_SIZE_MB || "20", 10);
+const KB_SCOPES = ["property", "owner", "global"];
+
+// Files are kept in memory only until saveDocument writes them to the uploads directory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE_MB * 1024 * 1024,
+    files: 1,
+  },
+  fileFilter: (_req, file, cb) => {
+    if (!resolveUploadContentType(file.originalname, file.mimetype)) {
+      return cb(
+        new Error(
+          `Unsupported file type: ${file.mimetype}. Allowed extensions: ${Object.keys(
+            SUPPORTED_UPLOAD_TYPES
+          ).join(", ")}`
+        )
+      );
+    }
+    cb(null, true);
+  },
+});
+
+/**
+ * Validation error for an unknown chunking strategy, or null when it is registered (or omitted)
+ */
+function validateChunkingStrategy(strategy?: string): string | null {
+  if (!strategy || getChunkingStrategy(strategy)) {
+    return null;
+  }
+  const names = listChunkingStrategies().map(({ name }) => name);
+  return `chunking_strategy must be one of: ${names.join(", ")}`;
+}
+
+/**
+ * Check a PII policy option, returning an error message if it's not supported
+ */
+function validatePiiPolicy(policy?: string): string | null {
+  if (!policy || PII_POLICIES.includes(policy as PiiPolicy)) {
+    return null;
+  }
+  return `pii_policy must be one of: ${PII_POLICIES.join(", ")}`;
+}
+
+/**
+ * Parse a single multipart file, answering upload errors with 4xx instead of 500
+ */
+function handleSingleUpload(req: Request, res: Response, next: NextFunction): void {
+  upload.single("file")(req, res, (err: any) => {
+    if (!err) {
+      return next();
+    }
+
+    if (err instanceof multer.MulterError) {
+      const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      const message =
+        err.code === "LIMIT_FILE_SIZE"
+          ? `File exceeds the maximum upload size of ${MAX_UPLOAD_SIZE_MB}MB`
+          : err.message;
+      res.status(status).json({ error: message });
+      return;
+    }
+
+    res.status(415).json({ error: (err as Error).message });
+  });
+}
+
 /**
  * Create document management routes
  */
 export function createDocumentRoutes(pool: Pool): Router {
   const router = Router();
 
+  /**
+   * POST /api/documents/upload
+   * Upload a document (multipart/form-data) and index it
+   * Fields: file, owner_id, property_id, title, kb_scope, chunking_strategy
+   */
+  router.post("/upload", handleSingleUpload, async (req: Request, res: Response): Promise<any> => {
+    try {
+      const file = req.file;
+      const {
+        owner_id,
+        property_id,
+        title,
+        kb_scope,
+        document_id,
+        chunk_size,
+        overlap,
+        rows_per_chunk,
+        chunking_strategy,
+        pii_policy,
+      } = req.body;
+
+      if (!file) {
+        return res.status(400).json({ error: "file is required" });
+      }
+
+      const scope = kb_scope || "property";
+      if (!KB_SCOPES.includes(scope)) {
+        return res.status(400).json({ error: `kb_scope must be one of: ${KB_SCOPES.join(", ")}` });
+      }
+
+      if ((scope === "property" || scope === "owner") && !owner_id) {
+        return res.status(400).json({ error: "owner_id is required for property/owner KB scope" });
+      }
+
+      const propertyId = property_id ? parseInt(property_id) : undefined;
+      if (propertyId !== undefined && isNaN(propertyId)) {
+        return res.status(400).json({ error: "Invalid property_id" });
+      }
+
+      if (scope === "property" && !propertyId) {
+        return res.status(400).json({ error: "property_id is required for property KB scope" });
+      }
+
+      const strategyError = validateChunkingStrategy(chunking_strategy);
+      if (strategyError) {
+        return res.status(400).json({ error: strategyError });
+      }
+
+      const piiPolicyError = validatePiiPolicy(pii_policy);
+      if (piiPolicyError) {
+        return res.status(400).json({ error: piiPolicyError });
+      }
+
+      // The client-declared type only passed the filter; trust the file's magic bytes
+      const contentType = detectContentType(file.buffer, file.mimetype, file.originalname);
+      if (!Object.values(SUPPORTED_UPLOAD_TYPES).includes(contentType)) {
+        return res.status(415).json({ error: `Unsupported file content: ${contentType}` });
+      }
+
+      console.log(
+        `[RAG API] Upload received: ${file.originalname} (${file.size} bytes, ${contentType})`
+      );
+
+      const result = await processUploadedDocument(file, contentType, {
+        document_id: document_id ? parseInt(document_id) : undefined,
+        title: title || file.originalname,
+        owner_id: owner_id?.toString(),
+        property_id: propertyId,
+        kb_scope: scope,
+        chunk_size: chunk_size ? parseInt(chunk_size) : undefined,
+        overlap: overlap ? parseInt(overlap) : undefined,
+        rows_per_chunk: rows_per_chunk ? parseInt(rows_per_chunk) : undefined,
+        chunking_strategy: chunking_strategy || undefined,
+        pii_policy: pii_policy || undefined,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Document uploaded and processed successfully",
+        document_id: result.documentId,
+        filename: result.filename,
+        chunk_count: result.chunkCount,
+        text_length: result.textLength,
+        chunking_strategy: result.chunkingStrategy,
+        token_report: result.tokenReport,
+        index_changes: result.indexChanges,
+        version: result.version,
+        pii: result.piiReport,
+      });
+    } catch (error) {
+      console.error("[RAG API] Error uploading document:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * POST /api/documents/preview
+   * Dry run: extract and chunk a file (multipart "file") or raw text without embedding or indexing
+   * Fields: file | text, chunk_size, overlap, chunking_strategy, rows_per_chunk, owner_id,
+   * pii_policy
+   */
+  router.post("/preview", handleSingleUpload, async (req: Request, res: Response): Promise<any> => {
+    try {
+      const file = req.file;
+      const {
+        text,
+        chunk_size,
+        overlap,
+        chunking_strategy,
+        rows_per_chunk,
+        owner_id,
+        pii_policy,
+      } = req.body || {};
+
+      if (!file && (typeof text !== "string" || !text.trim())) {
+        return res.status(400).json({ error: "file or text is required" });
+      }
+
+      const strategyError = validateChunkingStrategy(chunking_strategy);
+      if (strategyError) {
+        return res.status(400).json({ error: strategyError });
+      }
+
+      const piiPolicyError = validatePiiPolicy(pii_policy);
+      if (piiPolicyError) {
+        return res.status(400).json({ error: piiPolicyError });
+      }
+
+      const options = {
+        chunk_size: chunk_size ? parseInt(chunk_size) : undefined,
+        overlap: overlap !== undefined && overlap !== "" ? parseInt(overlap) : undefined,
+        chunking_strategy: chunking_strategy || undefined,
+        rows_per_chunk: rows_per_chunk ? parseInt(rows_per_chunk) : undefined,
+        owner_id: owner_id?.toString(),
+        pii_policy: pii_policy || undefined,
+      };
+
+      if (!file) {
+        const result = await previewChunks(text, options);
+        return res.json({ success: true, source: "text", ...result });
+      }
+
+      const contentType = detectContentType(file.buffer, file.mimetype, file.originalname);
+      if (!Object.values(SUPPORTED_UPLOAD_TYPES).includes(contentType)) {
+        return res.status(415).json({ error: `Unsupported file content: ${contentType}` });
+      }
+
+      const result = await previewFileChunks(file, contentType, options);
+      res.json({
+        success: true,
+        source: "file",
+        filename: file.originalname,
+        content_type: contentType,
+        ...result,
+      });
+    } catch (error) {
+      console.error("[RAG API] Error previewing chunks:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
   /**
    * POST /api/documents/process-url
-   * Process a document from URL and update VAT service
+   * Queue a document from URL for processing; VAT service is updated when the job finishes
    */
   router.post("/process-url", async (req: Request, res: Response): Promise<any> => {
     try {
-      const { document_id, upload_url, vat_service_url, vat_api_key, metadata } = req.body;
+      const { document_id, upload_url, metadata } = req.body;
 
-      if (!document_id || !upload_url || !vat_service_url) {
+      if (!document_id || !upload_url) {
         return res.status(400).json({
-          error: "document_id, upload_url, and vat_service_url are required",
+          error: "document_id and upload_url are required",
         });
       }
 
-      console.log(`[RAG API] Starting processing for document ${document_id} from ${upload_url}`);
+      try {
+        validateRemoteUrl(upload_url);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+
+      const strategyError = validateChunkingStrategy(metadata?.chunking_strategy);
+      if (strategyError) {
+        return res.status(400).json({ error: strategyError });
+      }
 
-      await processDocumentFromUrl(document_id, upload_url, vat_service_url, vat_api_key, metadata);
+      const piiPolicyError = validatePiiPolicy(metadata?.pii_policy);
+      if (piiPolicyError) {
+        return res.status(400).json({ error: piiPolicyError });
+      }
 
-      res.json({
+      console.log(`[RAG API] Queueing processing for document ${document_id} from ${upload_url}`);
+
+      const job = await enqueueProcessUrlJob({
+        document_id,
+        upload_url,
+        metadata,
+      });
+
+      res.status(202).json({
         success: true,
-        message: "Document processed successfully",
+        message: "Document queued for processing",
         document_id,
+        job_id: job.id,
+        status: job.status,
       });
     } catch (error) {
       console.error("[RAG API] Error starting document processing:", (error as Error).message);
@@ -44,6 +315,39 @@ export function createDocumentRoutes(pool: Pool): Router {
     }
   });
 
+  /**
+   * GET /api/documents/jobs/:id
+   * Get the status of a document processing job
+   */
+  router.get("/jobs/:id", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const job = await getJob(req.params.id);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.json({
+        job_id: job.id,
+        document_id: job.document_id,
+        status: job.status,
+        stage: job.stage,
+        progress: {
+          processed: job.progress_processed,
+          total: job.progress_total,
+        },
+        error: job.error_message || null,
+        created_at: job.created_at,
+        started_at: job.started_at,
+        completed_at: job.completed_at,
+        updated_at: job.updated_at,
+      });
+    } catch (error) {
+      console.error("[RAG API] Error getting job:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
   /**
    * GET /api/rag/documents
    * Get list of documents
@@ -97,6 +401,106 @@ export function createDocumentRoutes(pool: Pool): Router {
     }
   });
 
+  /**
+   * GET /api/rag/documents/:id/versions
+   * Version history of a document, newest first
+   */
+  router.get("/:id/versions", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const documentId = parseInt(req.params.id);
+
+      if (isNaN(documentId)) {
+        return res.status(400).json({ error: "Invalid document ID" });
+      }
+
+      const versions = await listDocumentVersions(documentId);
+      if (versions.length === 0) {
+        return res.status(404).json({ error: "No versions recorded for this document" });
+      }
+
+      res.json({
+        document_id: documentId,
+        active_version: versions.find((entry) => entry.status === "active")?.version ?? null,
+        versions,
+      });
+    } catch (error) {
+      console.error("[RAG API] Error listing document versions:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * GET /api/rag/documents/:id/versions/diff?from=1&to=2
+   * Chunk texts added and removed between two versions
+   */
+  router.get("/:id/versions/diff", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const fromVersion = parseInt(req.query.from as string);
+      const toVersion = parseInt(req.query.to as string);
+
+      if (isNaN(documentId)) {
+        return res.status(400).json({ error: "Invalid document ID" });
+      }
+      if (isNaN(fromVersion) || isNaN(toVersion)) {
+        return res.status(400).json({ error: "from and to versions are required" });
+      }
+
+      for (const version of [fromVersion, toVersion]) {
+        const entry = await getDocumentVersion(documentId, version);
+        if (!entry) {
+          return res.status(404).json({ error: `Version ${version} not found` });
+        }
+        if (entry.status !== "active" && entry.status !== "inactive") {
+          return res.status(409).json({
+            error: `Version ${version} is ${entry.status}; its chunks are no longer indexed`,
+          });
+        }
+      }
+
+      res.json(await diffDocumentVersions(documentId, fromVersion, toVersion));
+    } catch (error) {
+      console.error("[RAG API] Error diffing document versions:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * POST /api/rag/documents/:id/versions/:version/rollback
+   * Make an earlier version searchable again; its chunks keep their embeddings
+   */
+  router.post(
+    "/:id/versions/:version/rollback",
+    async (req: Request, res: Response): Promise<any> => {
+      try {
+        const documentId = parseInt(req.params.id);
+        const version = parseInt(req.params.version);
+
+        if (isNaN(documentId) || isNaN(version)) {
+          return res.status(400).json({ error: "Invalid document ID or version" });
+        }
+
+        const entry = await getDocumentVersion(documentId, version);
+        if (!entry) {
+          return res.status(404).json({ error: `Version ${version} not found` });
+        }
+        if (entry.status !== "active" && entry.status !== "inactive") {
+          return res.status(409).json({
+            error: `Version ${version} is ${entry.status} and cannot be restored`,
+          });
+        }
+
+        const restored = await rollbackDocumentVersion(documentId, version);
+        console.log(`[RAG API] Rolled back document ${documentId} to version ${version}`);
+
+        res.json({ success: true, document_id: documentId, version: restored });
+      } catch (error) {
+        console.error("[RAG API] Error rolling back document:", (error as Error).message);
+        res.status(500).json({ error: (error as Error).message });
+      }
+    }
+  );
+
   /**
    * DELETE /api/rag/documents/:id
    * Delete a document and all its chunks from Elasticsearch
@@ -115,6 +519,11 @@ export function createDocumentRoutes(pool: Pool): Router {
       // The deleteDocumentChunks uses _delete_by_query to remove ALL chunks with matching document_id
       const deletionResult = await deleteDocumentChunks(documentId);
       const deletedChunks = deletionResult?.deleted || 0;
+      await deleteDocumentVersions(documentId);
+      await emitWebhookEvent("document.deleted", {
+        document_id: documentId,
+        deleted_chunks: deletedChunks,
+      });
 
       console.log(
         `[RAG API] Deleted ${deletedChunks} chunks from Elasticsearch for document ${documentId}`
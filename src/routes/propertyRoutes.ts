@@ -0,0 +1,63 @@
+/**
+ * Property Routes
+ * Keeps knowledge base content derived from backend property data up to date, and serves
+ * the rental terms read from property documents
+ */
+
+import { Router, Request, Response } from "express";
+import { syncPropertyMetadata } from "../service/propertySync";
+import { getPropertyRentalTerms } from "../service/rentalTerms";
+
+/**
+ * Create property routes
+ */
+export function createPropertyRoutes(): Router {
+  const router = Router();
+
+  /**
+   * POST /api/properties/:id/sync
+   * Webhook for the backend after a property changes: re-embeds the property header chunks
+   * of its documents with the current price, size, description and address
+   */
+  router.post("/:id/sync", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const propertyId = parseInt(req.params.id);
+
+      if (isNaN(propertyId)) {
+        return res.status(400).json({ error: "Invalid property ID" });
+      }
+
+      const result = await syncPropertyMetadata(propertyId);
+      if (!result) {
+        return res.status(404).json({ error: "Property not found in the backend" });
+      }
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("[RAG API] Error syncing property:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * GET /api/properties/:id/terms
+   * Rental terms (price, deposit, utility rates, minimum term, notice period) read from the
+   * property's documents, each with the chunks it was read from
+   */
+  router.get("/:id/terms", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const propertyId = parseInt(req.params.id);
+
+      if (isNaN(propertyId)) {
+        return res.status(400).json({ error: "Invalid property ID" });
+      }
+
+      res.json(await getPropertyRentalTerms(propertyId));
+    } catch (error) {
+      console.error("[RAG API] Error getting property terms:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  return router;
+}
@@ -46,6 +46,7 @@ export function createRetrievalRoutes(): Router {
   /**
    * POST /api/rag/retrieve
    * Retrieve context chunks for a query (for model-vat to use in chat)
+   * query may be an array of phrasings; results are merged
    * Filters by owner_id and/or property_id for property-specific KB
    */
   router.post("/retrieve", async (req: Request, res: Response): Promise<any> => {
@@ -53,7 +54,8 @@ export function createRetrievalRoutes(): Router {
       const { query, top_k, search_type, min_score, rerank, owner_id, property_id, kb_scope } =
         req.body;
 
-      if (!query) {
+      const queries = Array.isArray(query) ? query : [query];
+      if (queries.length === 0 || !queries.every((q) => typeof q === "string" && q.trim())) {
         return res.status(400).json({ error: "Query is required" });
       }
 
@@ -0,0 +1,191 @@
+/**
+ * Webhook Routes
+ * Manages webhook subscriptions and inspects or replays their deliveries
+ */
+
+import { Router, Request, Response } from "express";
+import {
+  WEBHOOK_EVENTS,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  replayDeadWebhookDeliveries,
+  replayWebhookDelivery,
+} from "../service/webhooks";
+import { validatePublicUrl } from "../service/remoteFetch";
+import { WebhookEvent } from "../types";
+
+const DELIVERY_STATUSES = ["pending", "delivering", "delivered", "dead"];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+/**
+ * Create webhook routes
+ */
+export function createWebhookRoutes(): Router {
+  const router = Router();
+
+  /**
+   * GET /api/webhooks
+   * List subscriptions (secrets are never returned)
+   */
+  router.get("/", async (_req: Request, res: Response) => {
+    try {
+      res.json({ events: WEBHOOK_EVENTS, subscriptions: await listWebhookSubscriptions() });
+    } catch (error) {
+      console.error("[RAG API] Error listing webhooks:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * POST /api/webhooks
+   * Subscribe a URL to events
+   * Body: { url, events, secret?, description? } - the (generated) secret is only returned here
+   */
+  router.post("/", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const { url, events, secret, description } = req.body;
+
+      // Deliveries can't be aimed at private, loopback or link-local addresses
+      try {
+        validatePublicUrl(url);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+
+      if (
+        !Array.isArray(events) ||
+        events.length === 0 ||
+        events.some((event) => !WEBHOOK_EVENTS.includes(event))
+      ) {
+        return res.status(400).json({
+          error: `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(", ")}`,
+        });
+      }
+
+      if (secret !== undefined && (typeof secret !== "string" || secret.length < 16)) {
+        return res.status(400).json({ error: "secret must be a string of at least 16 characters" });
+      }
+
+      const subscription = await createWebhookSubscription({
+        url,
+        events: events as WebhookEvent[],
+        secret,
+        description,
+      });
+      res.status(201).json(subscription);
+    } catch (error) {
+      console.error("[RAG API] Error creating webhook:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Remove a subscription and its deliveries
+   */
+  router.delete("/:id", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const subscription = isUuid(req.params.id)
+        ? await getWebhookSubscription(req.params.id)
+        : null;
+
+      if (!subscription) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      if (subscription.kind === "vat") {
+        return res.status(409).json({
+          error: "The VAT subscription follows VAT_SERVICE_URL and can't be deleted",
+        });
+      }
+
+      await deleteWebhookSubscription(subscription.id);
+      res.json({ success: true, id: subscription.id });
+    } catch (error) {
+      console.error("[RAG API] Error deleting webhook:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * GET /api/webhooks/deliveries?status=&subscription_id=&event=&limit=
+   * Most recent deliveries first
+   */
+  router.get("/deliveries", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const { status, subscription_id, event } = req.query;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+      if (status !== undefined && !DELIVERY_STATUSES.includes(status as string)) {
+        return res.status(400).json({
+          error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}`,
+        });
+      }
+      if (subscription_id !== undefined && !isUuid(subscription_id)) {
+        return res.status(400).json({ error: "Invalid subscription_id" });
+      }
+      if (isNaN(limit) || limit < 1 || limit > 500) {
+        return res.status(400).json({ error: "limit must be between 1 and 500" });
+      }
+
+      const deliveries = await listWebhookDeliveries({
+        status: status as string | undefined,
+        subscriptionId: subscription_id,
+        event: event as string | undefined,
+        limit,
+      });
+      res.json({ count: deliveries.length, deliveries });
+    } catch (error) {
+      console.error("[RAG API] Error listing webhook deliveries:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * POST /api/webhooks/deliveries/replay
+   * Send every dead delivery again, optionally only those of one subscription
+   * Body: { subscription_id? }
+   */
+  router.post("/deliveries/replay", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const subscriptionId = req.body?.subscription_id;
+
+      if (subscriptionId !== undefined && !isUuid(subscriptionId)) {
+        return res.status(400).json({ error: "Invalid subscription_id" });
+      }
+
+      const replayed = await replayDeadWebhookDeliveries(subscriptionId);
+      res.status(202).json({ success: true, replayed });
+    } catch (error) {
+      console.error("[RAG API] Error replaying webhook deliveries:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * POST /api/webhooks/deliveries/:id/replay
+   * Send one delivery again, whatever its status (except while it's being sent)
+   */
+  router.post("/deliveries/:id/replay", async (req: Request, res: Response): Promise<any> => {
+    try {
+      const delivery = isUuid(req.params.id) ? await replayWebhookDelivery(req.params.id) : null;
+
+      if (!delivery) {
+        return res.status(404).json({ error: "Delivery not found or being sent" });
+      }
+
+      res.status(202).json({ success: true, delivery });
+    } catch (error) {
+      console.error("[RAG API] Error replaying webhook delivery:", (error as Error).message);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  return router;
+}
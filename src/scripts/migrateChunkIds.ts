@@ -0,0 +1,216 @@
+/**
+ * Chunk ID Migration
+ * Rewrites chunks indexed with the old numeric ids (document id + chunk index) under the
+ * string ids from assignChunkIds. Embeddings are copied as they are, nothing is re-embedded.
+ *
+ * When chunk_id is already mapped as keyword the chunks are rewritten in place. A field's
+ * type can't be changed on an existing index, so an index still mapping chunk_id as an
+ * integer is copied into a new index that then takes over ES_INDEX_NAME as an alias, like
+ * the embedding migration does.
+ *
+ * Usage:
+ *   node dist/scripts/migrateChunkIds.js [--batch-size 500] [--delete-old]
+ * Re-running it is safe: chunks that already have their new id are left alone.
+ */
+
+import path from "path";
+import dotenv from "dotenv";
+import {
+  bulkIndexChunks,
+  countChunks,
+  createIndex,
+  deleteChunksByIds,
+  deleteDocumentChunks,
+  deleteIndex,
+  ES_INDEX_NAME,
+  getIndexAliasTargets,
+  getIndexEmbeddingInfo,
+  listChunkDocumentIds,
+  refreshIndex,
+  scrollChunks,
+  swapIndexAlias,
+} from "../elasticsearchClient";
+import { assignChunkIds, hashESChunkContent } from "../service/documentService";
+import { getEmbeddingProvider } from "../service/embeddingProvider";
+import { ESChunk } from "../types";
+
+dotenv.config({ path: path.join(__dirname, "../../.env") });
+
+interface MigrationOptions {
+  batchSize: number;
+  // Drop the indexes the alias pointed to before (only used when copying to a new index)
+  deleteOld: boolean;
+}
+
+function parseArgs(argv: string[]): MigrationOptions {
+  const batchSizeIndex = argv.indexOf("--batch-size");
+  return {
+    batchSize: batchSizeIndex !== -1 ? parseInt(argv[batchSizeIndex + 1], 10) || 500 : 500,
+    deleteOld: argv.includes("--delete-old"),
+  };
+}
+
+/**
+ * Write all chunks of a document to the target index under their new ids
+ * In place, the chunks' old ids are deleted once the new ones are written
+ */
+async function rewriteDocument(
+  documentId: number,
+  targetIndex: string,
+  batchSize: number
+): Promise<number> {
+  const hits: { _id: string; _source: ESChunk }[] = [];
+  await scrollChunks(
+    ES_INDEX_NAME!,
+    { term: { document_id: documentId } },
+    batchSize,
+    async (batch) => {
+      hits.push(...batch);
+    }
+  );
+
+  // Chunks indexed before content hashes existed get one now
+  const chunks = hits.map((hit) => ({
+    ...hit._source,
+    content_hash: hit._source.content_hash || hashESChunkContent(hit._source),
+  }));
+  const ids = assignChunkIds(chunks);
+
+  const inPlace = targetIndex === ES_INDEX_NAME;
+  const rewritten = chunks
+    .map((chunk, i) => ({ ...chunk, chunk_id: ids[i] }))
+    .filter((chunk, i) => !inPlace || hits[i]._id !== chunk.chunk_id);
+  if (rewritten.length === 0) {
+    return 0;
+  }
+
+  const result = await bulkIndexChunks(rewritten, targetIndex);
+  if (result.errors) {
+    throw new Error(`Rewriting the chunks of document ${documentId} failed`);
+  }
+
+  if (inPlace) {
+    const newIds = new Set(ids);
+    await deleteChunksByIds(
+      ES_INDEX_NAME!,
+      hits.map((hit) => hit._id).filter((id) => !newIds.has(id))
+    );
+  }
+  return rewritten.length;
+}
+
+async function rewriteDocuments(
+  documentIds: number[],
+  targetIndex: string,
+  batchSize: number
+): Promise<number> {
+  let rewritten = 0;
+
+  for (const [i, documentId] of documentIds.entries()) {
+    rewritten += await rewriteDocument(documentId, targetIndex, batchSize);
+
+    if ((i + 1) % 100 === 0 || i === documentIds.length - 1) {
+      console.log(
+        `[Migration] ${i + 1}/${documentIds.length} documents, ${rewritten} chunks rewritten`
+      );
+    }
+  }
+  return rewritten;
+}
+
+/**
+ * Copy into a new index, catch up on documents changed meanwhile, verify, then swap the alias
+ */
+async function migrateToNewIndex(
+  dims: number,
+  model: string,
+  options: MigrationOptions
+): Promise<void> {
+  const previousTargets = await getIndexAliasTargets();
+  const targetIndex = `${ES_INDEX_NAME}-chunk-ids-${Date.now()}`;
+
+  await createIndex(targetIndex, dims, model);
+  const startedAt = new Date().toISOString();
+
+  try {
+    const documentIds = await listChunkDocumentIds(ES_INDEX_NAME!);
+    await rewriteDocuments(documentIds, targetIndex, options.batchSize);
+
+    // Documents (re-)processed by the service while we were copying are copied again
+    const changed = await listChunkDocumentIds(ES_INDEX_NAME!, {
+      range: { created_at: { gte: startedAt } },
+    });
+    for (const documentId of changed) {
+      await deleteDocumentChunks(documentId, targetIndex);
+    }
+    await rewriteDocuments(changed, targetIndex, options.batchSize);
+
+    // ... and documents deleted meanwhile are dropped
+    const liveDocuments = new Set(await listChunkDocumentIds(ES_INDEX_NAME!));
+    await refreshIndex(targetIndex);
+    for (const documentId of await listChunkDocumentIds(targetIndex)) {
+      if (!liveDocuments.has(documentId)) {
+        await deleteDocumentChunks(documentId, targetIndex);
+      }
+    }
+
+    await refreshIndex(targetIndex);
+    const [liveCount, targetCount] = await Promise.all([
+      countChunks(ES_INDEX_NAME),
+      countChunks(targetIndex),
+    ]);
+    console.log(`[Migration] Live index has ${liveCount} chunks, new index ${targetCount}`);
+    if (targetCount < liveCount) {
+      throw new Error(
+        `New index '${targetIndex}' has fewer chunks than the live index; not swapping (re-run)`
+      );
+    }
+  } catch (error) {
+    // Nothing points at the new index yet
+    await deleteIndex(targetIndex).catch(() => {});
+    throw error;
+  }
+
+  if (!previousTargets) {
+    console.warn(`[Migration] Replacing concrete index '${ES_INDEX_NAME}' with an alias`);
+  }
+  const replaced = await swapIndexAlias(targetIndex);
+
+  if (options.deleteOld) {
+    for (const index of replaced) {
+      await deleteIndex(index);
+    }
+  } else if (replaced.length > 0) {
+    console.log(`[Migration] Kept previous index(es) ${replaced.join(", ")} for rollback`);
+  }
+}
+
+async function migrate(options: MigrationOptions): Promise<void> {
+  const info = await getIndexEmbeddingInfo();
+
+  if (info.chunkIdType === "keyword") {
+    console.log(`[Migration] Rewriting chunk ids in place in '${ES_INDEX_NAME}'`);
+    const documentIds = await listChunkDocumentIds(ES_INDEX_NAME!);
+    await rewriteDocuments(documentIds, ES_INDEX_NAME!, options.batchSize);
+    await refreshIndex();
+  } else {
+    if (info.dims === null) {
+      throw new Error(`Index '${ES_INDEX_NAME}' has no embedding mapping to copy`);
+    }
+    console.log(
+      `[Migration] '${ES_INDEX_NAME}' maps chunk_id as ${info.chunkIdType}; ` +
+        `copying into a new index with chunk_id as keyword`
+    );
+    // Indexes created before the model was recorded were accepted for the configured model
+    await migrateToNewIndex(info.dims, info.model ?? getEmbeddingProvider().model, options);
+  }
+
+  console.log("[Migration] Done");
+}
+
+migrate(parseArgs(process.argv.slice(2)))
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[Migration] Failed:", (error as Error).message);
+    process.exit(1);
+  });
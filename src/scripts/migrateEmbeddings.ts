@@ -0,0 +1,179 @@
+/**
+ * Embedding Migration
+ * Re-embeds every chunk with the configured embedding provider into a new index, then
+ * points ES_INDEX_NAME (as an alias) at it. Searches keep using the old index until the
+ * atomic alias swap, so the service stays up throughout.
+ *
+ * Usage (with the new EMBEDDING_* settings in the environment):
+ *   node dist/scripts/migrateEmbeddings.js [--batch-size 64] [--delete-old]
+ * Restart the service with the same settings afterwards so queries use the new model.
+ */
+
+import path from "path";
+import dotenv from "dotenv";
+import {
+  bulkIndexChunks,
+  countChunks,
+  createIndex,
+  deleteChunksByIds,
+  deleteIndex,
+  ES_INDEX_NAME,
+  findMissingChunkIds,
+  getIndexAliasTargets,
+  refreshIndex,
+  scrollChunks,
+  swapIndexAlias,
+} from "../elasticsearchClient";
+import { generateEmbeddings, initializeEmbeddingModel } from "../service/documentService";
+import { stopEmbeddingPool } from "../service/embeddingPool";
+
+dotenv.config({ path: path.join(__dirname, "../../.env") });
+
+interface MigrationOptions {
+  batchSize: number;
+  // Drop the indexes the alias pointed to before (a concrete index is always replaced)
+  deleteOld: boolean;
+}
+
+function parseArgs(argv: string[]): MigrationOptions {
+  const batchSizeIndex = argv.indexOf("--batch-size");
+  return {
+    batchSize: batchSizeIndex !== -1 ? parseInt(argv[batchSizeIndex + 1], 10) || 64 : 64,
+    deleteOld: argv.includes("--delete-old"),
+  };
+}
+
+/**
+ * Index name for a model, e.g. rag_chunks-multilingual-e5-small-1718000000000
+ */
+function buildTargetIndexName(model: string): string {
+  const slug = model
+    .split("/")
+    .pop()!
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-");
+  return `${ES_INDEX_NAME}-${slug}-${Date.now()}`;
+}
+
+/**
+ * Re-embed the live chunks matching a query into the target index
+ */
+async function copyChunks(targetIndex: string, query: any, batchSize: number): Promise<number> {
+  let copied = 0;
+
+  await scrollChunks(ES_INDEX_NAME!, query, batchSize, async (hits) => {
+    const chunks = hits.map((hit) => hit._source);
+    const embeddings = await generateEmbeddings(chunks.map((chunk) => chunk.chunk_text));
+
+    const result = await bulkIndexChunks(
+      chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })),
+      targetIndex
+    );
+    if (result.errors) {
+      throw new Error(`Bulk indexing into '${targetIndex}' failed`);
+    }
+
+    copied += chunks.length;
+    console.log(`[Migration] Re-embedded ${copied} chunks`);
+  });
+
+  return copied;
+}
+
+/**
+ * Remove chunks from the target that were deleted from the live index while copying
+ */
+async function removeDeletedChunks(targetIndex: string, batchSize: number): Promise<number> {
+  let removed = 0;
+
+  await scrollChunks(
+    targetIndex,
+    { match_all: {} },
+    batchSize,
+    async (hits) => {
+      const missing = await findMissingChunkIds(ES_INDEX_NAME!, hits.map((hit) => hit._id));
+      await deleteChunksByIds(targetIndex, missing);
+      removed += missing.length;
+    },
+    false
+  );
+
+  return removed;
+}
+
+/**
+ * Copy, verify, then swap the alias; the new index is dropped if anything fails before the swap
+ */
+async function migrate(options: MigrationOptions): Promise<void> {
+  const provider = await initializeEmbeddingModel();
+  const previousTargets = await getIndexAliasTargets();
+  const targetIndex = buildTargetIndexName(provider.model);
+
+  console.log(
+    `[Migration] Re-embedding '${ES_INDEX_NAME}' (${
+      previousTargets ? `alias of ${previousTargets.join(", ")}` : "index"
+    }) into '${targetIndex}' with ${provider.name}/${provider.model} (${provider.dims} dims)`
+  );
+
+  await createIndex(targetIndex, provider.dims, provider.model);
+  const startedAt = new Date().toISOString();
+
+  try {
+    const copied = await copyChunks(targetIndex, { match_all: {} }, options.batchSize);
+
+    // Catch up on chunks the service indexed while we were copying
+    const caughtUp = await copyChunks(
+      targetIndex,
+      { range: { created_at: { gte: startedAt } } },
+      options.batchSize
+    );
+    await refreshIndex(targetIndex);
+    const removed = await removeDeletedChunks(targetIndex, options.batchSize);
+    await refreshIndex(targetIndex);
+
+    const [liveCount, targetCount] = await Promise.all([
+      countChunks(ES_INDEX_NAME),
+      countChunks(targetIndex),
+    ]);
+    console.log(
+      `[Migration] Copied ${copied} chunks (+${caughtUp} caught up, -${removed} deleted); ` +
+        `live index has ${liveCount}, new index ${targetCount}`
+    );
+    if (targetCount < liveCount) {
+      throw new Error(
+        `New index '${targetIndex}' has fewer chunks than the live index; not swapping (re-run)`
+      );
+    }
+  } catch (error) {
+    // Nothing points at the new index yet
+    await deleteIndex(targetIndex).catch(() => {});
+    throw error;
+  }
+
+  if (!previousTargets) {
+    console.warn(`[Migration] Replacing concrete index '${ES_INDEX_NAME}' with an alias`);
+  }
+  const replaced = await swapIndexAlias(targetIndex);
+
+  if (options.deleteOld) {
+    for (const index of replaced) {
+      await deleteIndex(index);
+    }
+  } else if (replaced.length > 0) {
+    console.log(`[Migration] Kept previous index(es) ${replaced.join(", ")} for rollback`);
+  }
+
+  console.log(
+    `[Migration] Done. Restart the service with EMBEDDING_MODEL=${provider.model} so queries ` +
+      `are embedded with the same model`
+  );
+}
+
+migrate(parseArgs(process.argv.slice(2)))
+  .then(() => stopEmbeddingPool())
+  .then(() => process.exit(0))
+  .catch(async (error) => {
+    console.error("[Migration] Failed:", (error as Error).message);
+    await stopEmbeddingPool();
+    process.exit(1);
+  });
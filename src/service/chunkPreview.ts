@@ -0,0 +1,253 @@
+/**
+ * Chunking Preview
+ * Dry run of extraction and chunking for diagnosing retrieval misses: shows where each
+ * proposed chunk comes from and which parts of the source no chunk covers
+ * Nothing is embedded or indexed
+ */
+
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import {
+  ChunkPreview,
+  ChunkPreviewResult,
+  DocumentMetadata,
+  SourceSpan,
+  TextChunk,
+} from "../types";
+import {
+  buildTokenReport,
+  chunkBody,
+  chunkText,
+  countTokens,
+  estimateTokenCount,
+  extractTextFromFile,
+  FileData,
+  initializeEmbeddingModel,
+} from "./documentService";
+import { resolveChunkingStrategyName } from "./chunkingStrategies";
+import { scanPii } from "./piiScanner";
+import { getSectionPatterns } from "./sectionPatterns";
+import { isSpreadsheetFile } from "./spreadsheetExtractor";
+import { normalizeVietnamese } from "./vietnameseText";
+
+// Minimum characters used to anchor each end of a chunk that can't be found verbatim
+const ANCHOR_LENGTH = 40;
+
+const HEADING_LINE_REGEX = /^#{1,6}\s+\S/;
+
+/**
+ * Chunk content that comes from the source: no title header and no repeated overlap/context
+ */
+function ownContent(chunk: TextChunk): string {
+  const { overlap_end, focus_start, focus_end } = chunk.metadata;
+
+  if (focus_start !== undefined && focus_end !== undefined) {
+    return chunk.text.slice(focus_start, focus_end).trim();
+  }
+  if (overlap_end !== undefined) {
+    return chunk.text.slice(overlap_end).trim();
+  }
+  return chunkBody(chunk.text).trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find a snippet ignoring whitespace and sentence punctuation differences
+ * (chunkers re-join lines and re-punctuate split sentences)
+ */
+function findLoose(source: string, snippet: string, from: number): SourceSpan | null {
+  const words = snippet
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.replace(/[.!?。]+$/, ""))
+    .filter((word) => word);
+  if (words.length === 0) return null;
+
+  const pattern = words.map((word) => `${escapeRegExp(word)}[.!?。]*`).join("\\s*");
+  const regex = new RegExp(pattern, "g");
+  regex.lastIndex = from;
+  const match = regex.exec(source);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+/**
+ * Words from the start (or end) of a text adding up to at least ANCHOR_LENGTH characters
+ */
+function takeAnchor(text: string, fromEnd: boolean): string {
+  const words = text.split(/\s+/).filter((word) => word);
+  if (fromEnd) words.reverse();
+
+  const anchor: string[] = [];
+  let length = 0;
+  for (const word of words) {
+    anchor.push(word);
+    length += word.length + 1;
+    if (length >= ANCHOR_LENGTH) break;
+  }
+
+  if (fromEnd) anchor.reverse();
+  return anchor.join(" ");
+}
+
+/**
+ * Locate a chunk's content in the source text, preferring matches at or after `from`
+ * (consecutive chunks of a section follow each other, and sections may repeat phrases)
+ * Falls back to matching both ends when the content was altered in between
+ */
+function locateInSource(source: string, content: string, from: number = 0): SourceSpan | null {
+  if (!content) return null;
+
+  const exact = source.indexOf(content, from);
+  if (exact !== -1) {
+    return { start: exact, end: exact + content.length };
+  }
+
+  const located = findLoose(source, content, from) || locateByAnchors(source, content, from);
+  if (located || from === 0) {
+    return located;
+  }
+  return locateInSource(source, content, 0);
+}
+
+function locateByAnchors(source: string, content: string, from: number): SourceSpan | null {
+  const head = findLoose(source, takeAnchor(content, false), from);
+  if (!head) return null;
+
+  // Look for the tail near where the content should end, so repeated phrases don't cut it short
+  const tailAnchor = takeAnchor(content, true);
+  const expectedTail = head.start + Math.floor(content.length * 0.9) - tailAnchor.length;
+  const tail =
+    findLoose(source, tailAnchor, Math.max(head.start, expectedTail)) ||
+    findLoose(source, tailAnchor, head.start);
+  return { start: head.start, end: tail ? tail.end : head.end };
+}
+
+/**
+ * Source ranges not covered by any chunk
+ * Whitespace and Markdown heading lines (carried in chunk titles) are not reported
+ */
+function findUncapturedSpans(source: string, covered: SourceSpan[]): SourceSpan[] {
+  const spans: SourceSpan[] = [];
+  const sorted = [...covered].sort((a, b) => a.start - b.start);
+
+  const addGap = (from: number, to: number) => {
+    const raw = source.slice(from, to);
+    const text = raw.trim();
+    if (!text || text.split("\n").every((line) => HEADING_LINE_REGEX.test(line.trim()))) {
+      return;
+    }
+
+    const start = from + raw.length - raw.trimStart().length;
+    spans.push({ start, end: start + text.length, text });
+  };
+
+  let cursor = 0;
+  for (const span of sorted) {
+    if (span.start > cursor) {
+      addGap(cursor, span.start);
+    }
+    cursor = Math.max(cursor, span.end);
+  }
+  if (cursor < source.length) {
+    addGap(cursor, source.length);
+  }
+
+  return spans;
+}
+
+/**
+ * Chunk text exactly as processDocument would and report diagnostics
+ * Offsets and text lengths refer to the text as it is indexed: with personal data handled
+ * per metadata.pii_policy, then normalized (see vietnameseText)
+ */
+export async function previewChunks(
+  rawText: string,
+  metadata: DocumentMetadata = {}
+): Promise<ChunkPreviewResult> {
+  const { text: scannedText, report: piiReport } = scanPii(rawText, metadata.pii_policy);
+  const text = normalizeVietnamese(scannedText);
+
+  // Load the tokenizer so token counts match ingestion
+  await initializeEmbeddingModel();
+
+  const chunkSize = metadata.chunk_size || 500;
+  const chunkingStrategy = resolveChunkingStrategyName(
+    metadata.chunking_strategy,
+    metadata.content_format
+  );
+
+  const chunks = chunkText(text, {
+    chunkSize,
+    overlap: metadata.overlap ?? 50,
+    format: metadata.content_format,
+    strategy: chunkingStrategy,
+    sectionPatterns: await getSectionPatterns(metadata.owner_id),
+  });
+
+  // The next chunk's own content (overlap excluded) usually starts where this one ends
+  let searchFrom = 0;
+  const previews: ChunkPreview[] = chunks.map((chunk, index) => {
+    const location = locateInSource(text, ownContent(chunk), searchFrom);
+    searchFrom = location ? location.end : 0;
+    return {
+      index,
+      text: chunk.text,
+      section_title: chunk.metadata.section_title,
+      priority: chunk.metadata.section_priority,
+      estimated_tokens: estimateTokenCount(chunk.text),
+      tokens: chunk.metadata.token_count ?? countTokens(chunk.text),
+      start: location ? location.start : null,
+      end: location ? location.end : null,
+      metadata: chunk.metadata,
+    };
+  });
+
+  const covered = previews
+    .filter((preview) => preview.start !== null && preview.end !== null)
+    .map((preview) => ({ start: preview.start!, end: preview.end! }));
+  const uncapturedSpans = findUncapturedSpans(text, covered);
+  const uncapturedLength = uncapturedSpans.reduce((sum, span) => sum + span.end - span.start, 0);
+
+  return {
+    text_length: text.length,
+    chunking_strategy: chunkingStrategy,
+    chunk_count: previews.length,
+    capture_rate:
+      text.length > 0 ? Math.round((1 - uncapturedLength / text.length) * 1000) / 10 : 100,
+    uncaptured_spans: uncapturedSpans,
+    token_report: buildTokenReport(chunks, chunkSize),
+    chunks: previews,
+    pii: piiReport,
+  };
+}
+
+/**
+ * Extract an uploaded file to a temporary path and preview its chunks
+ */
+export async function previewFileChunks(
+  fileData: FileData,
+  contentType: string,
+  metadata: DocumentMetadata = {}
+): Promise<ChunkPreviewResult> {
+  const filename = path.basename(fileData.originalname || "document");
+  const tempPath = path.join(os.tmpdir(), `rag-preview-${Date.now()}-${filename}`);
+
+  await fs.writeFile(tempPath, fileData.buffer || fileData.content || "");
+
+  try {
+    const text = await extractTextFromFile(tempPath, contentType, {
+      rowsPerChunk: metadata.rows_per_chunk,
+    });
+
+    return await previewChunks(text, {
+      ...metadata,
+      content_format: isSpreadsheetFile(tempPath, contentType) ? "rows" : "text",
+    });
+  } finally {
+    await fs.remove(tempPath);
+  }
+}
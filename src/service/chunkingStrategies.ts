@@ -0,0 +1,451 @@
+/**
+ * Chunking Strategies
+ * Named chunkers selectable per document via metadata.chunking_strategy
+ * The document service registers the Vietnamese "semantic" and spreadsheet "rows" strategies;
+ * the strategies below are structure-agnostic and work for English documents, FAQs or legal texts
+ */
+
+import { ChunkMetadata, CompiledSectionPattern, TextChunk } from "../types";
+import {
+  isMarkdownTable,
+  isMarkdownTableLine,
+  splitMarkdownTable,
+  splitTableBlocks,
+} from "./markdownTable";
+
+export interface ChunkingContext {
+  chunkSize: number; // Max tokens per chunk
+  overlap: number; // Tokens repeated from the previous chunk
+  countTokens: (text: string) => number;
+  sectionPatterns?: CompiledSectionPattern[]; // Owner-specific patterns for the semantic strategy
+}
+
+export interface ChunkingStrategy {
+  name: string;
+  description: string;
+  chunk(text: string, context: ChunkingContext): TextChunk[];
+}
+
+export const DEFAULT_CHUNKING_STRATEGY = "semantic";
+
+// Neighbouring sentences included on each side of the focus sentence
+const SENTENCE_WINDOW_SIZE = 2;
+
+// Separators tried in order by the recursive strategy, coarsest first
+const RECURSIVE_SEPARATORS = ["\n\n", "\n", ". ", " "];
+
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+const strategies = new Map<string, ChunkingStrategy>();
+
+/**
+ * Register a chunking strategy under its name (replaces an existing one)
+ */
+export function registerChunkingStrategy(strategy: ChunkingStrategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+export function getChunkingStrategy(name: string): ChunkingStrategy | undefined {
+  return strategies.get(name);
+}
+
+export function listChunkingStrategies(): { name: string; description: string }[] {
+  return Array.from(strategies.values()).map(({ name, description }) => ({ name, description }));
+}
+
+/**
+ * Strategy used for a document: the requested one, else per content format
+ */
+export function resolveChunkingStrategyName(strategy?: string, format?: "text" | "rows"): string {
+  return strategy || (format === "rows" ? "rows" : DEFAULT_CHUNKING_STRATEGY);
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?。])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence);
+}
+
+/**
+ * Take whole sentences from the end of a text, up to the overlap token budget
+ * Returns "" when the text ends in a table or its last sentence alone exceeds the budget
+ */
+export function takeTrailingSentences(
+  text: string,
+  overlapTokens: number,
+  countTokens: (text: string) => number
+): string {
+  const lines = text.trim().split("\n");
+  if (overlapTokens <= 0 || isMarkdownTableLine(lines[lines.length - 1] || "")) {
+    return "";
+  }
+
+  const sentences = splitSentences(text);
+  const taken: string[] = [];
+  let tokens = 0;
+
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const sentenceTokens = countTokens(sentences[i]);
+    if (tokens + sentenceTokens > overlapTokens) break;
+    taken.unshift(sentences[i]);
+    tokens += sentenceTokens;
+  }
+
+  return taken.join(" ");
+}
+
+/**
+ * Take whole words from the end of a text, up to the overlap token budget
+ */
+function takeTrailingWords(
+  text: string,
+  overlapTokens: number,
+  countTokens: (text: string) => number
+): string {
+  const lines = text.trim().split("\n");
+  if (overlapTokens <= 0 || isMarkdownTableLine(lines[lines.length - 1] || "")) {
+    return "";
+  }
+
+  const words = text.trim().split(/\s+/);
+  const taken: string[] = [];
+  let tokens = 0;
+
+  for (let i = words.length - 1; i >= 0; i--) {
+    const wordTokens = countTokens(words[i]);
+    if (tokens + wordTokens > overlapTokens) break;
+    taken.unshift(words[i]);
+    tokens += wordTokens;
+  }
+
+  return taken.join(" ");
+}
+
+/**
+ * Assemble a chunk from an optional "[Title]" header, carried-over overlap text and the body
+ */
+function buildChunk(
+  header: string,
+  overlapText: string,
+  body: string,
+  metadata: ChunkMetadata = {}
+): TextChunk {
+  const prefix = header ? `${header}\n` : "";
+  if (!overlapText) {
+    return { text: prefix + body, metadata };
+  }
+
+  return {
+    text: `${prefix}${overlapText}\n\n${body}`,
+    metadata: {
+      ...metadata,
+      overlap_start: prefix.length,
+      overlap_end: prefix.length + overlapText.length,
+    },
+  };
+}
+
+/**
+ * Pack a titled section into chunks by paragraph, falling back to sentences for long paragraphs
+ * Oversized tables become their own chunks, split between rows
+ */
+function packSection(content: string, title: string, context: ChunkingContext): TextChunk[] {
+  const { chunkSize, overlap, countTokens } = context;
+  const header = `[${title}]`;
+
+  if (countTokens(`${header}\n${content}`) <= chunkSize) {
+    return [buildChunk(header, "", content, { section_title: title })];
+  }
+
+  const budget = chunkSize - countTokens(`[${title} - Tiếp theo]\n`);
+  const overlapBudget = Math.min(overlap, Math.floor(budget / 2));
+  const chunks: TextChunk[] = [];
+
+  let current = "";
+  let currentTokens = 0;
+  let overlapText = "";
+
+  const flush = () => {
+    if (!current) return;
+    const chunkHeader = chunks.length === 0 ? header : `[${title} - Tiếp theo]`;
+    chunks.push(buildChunk(chunkHeader, overlapText, current, { section_title: title }));
+    overlapText = takeTrailingSentences(current, overlapBudget, countTokens);
+    current = "";
+    currentTokens = overlapText ? countTokens(overlapText) : 0;
+  };
+
+  const append = (text: string, separator: string) => {
+    const tokens = countTokens(text);
+    if (current && currentTokens + tokens > budget) {
+      flush();
+    }
+    current = current ? current + separator + text : text;
+    currentTokens += tokens;
+  };
+
+  for (const block of splitTableBlocks(content)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+
+    const blockTokens = countTokens(trimmed);
+
+    if (blockTokens > budget && isMarkdownTable(trimmed)) {
+      flush();
+      for (const tablePart of splitMarkdownTable(trimmed, budget, countTokens)) {
+        chunks.push(
+          buildChunk(`[${title} - Tiếp theo]`, "", tablePart, {
+            section_title: title,
+            is_table: true,
+          })
+        );
+      }
+      overlapText = "";
+      currentTokens = 0;
+      continue;
+    }
+
+    if (blockTokens > budget) {
+      splitSentences(trimmed).forEach((sentence, index) =>
+        append(sentence, index === 0 ? "\n\n" : " ")
+      );
+      continue;
+    }
+
+    append(trimmed, "\n\n");
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Split a document at Markdown headings; each chunk is titled with its heading path
+ * Content before the first heading is titled "Mô tả khác"
+ */
+function chunkByMarkdownHeadings(text: string, context: ChunkingContext): TextChunk[] {
+  const sections: { title: string; lines: string[] }[] = [];
+  const headingPath: string[] = [];
+  let current = { title: "Mô tả khác", lines: [] as string[] };
+
+  for (const line of text.split("\n")) {
+    const heading = line.match(HEADING_REGEX);
+    if (!heading) {
+      current.lines.push(line);
+      continue;
+    }
+
+    sections.push(current);
+    const level = heading[1].length;
+    headingPath.length = Math.min(headingPath.length, level - 1);
+    headingPath.push(heading[2]);
+    current = { title: headingPath.filter((part) => part).join(" > "), lines: [] };
+  }
+  sections.push(current);
+
+  const chunks: TextChunk[] = [];
+  for (const section of sections) {
+    const content = section.lines.join("\n").trim();
+    if (content) {
+      chunks.push(...packSection(content, section.title, context));
+    }
+  }
+
+  console.log(`[Chunking] Found ${sections.length} Markdown heading sections`);
+  return chunks;
+}
+
+/**
+ * Split text with the coarsest separator that brings pieces under the budget
+ * Markdown tables are split between rows with the header repeated
+ */
+function splitRecursive(
+  text: string,
+  separators: string[],
+  maxTokens: number,
+  countTokens: (text: string) => number
+): string[] {
+  if (countTokens(text) <= maxTokens) {
+    return [text];
+  }
+
+  const [separator, ...remaining] = separators;
+
+  // No separator left: cut by characters in proportion to the token count
+  if (separator === undefined) {
+    const pieceLength = Math.max(1, Math.floor((text.length * maxTokens) / countTokens(text)));
+    const pieces: string[] = [];
+    for (let start = 0; start < text.length; start += pieceLength) {
+      pieces.push(text.slice(start, start + pieceLength));
+    }
+    return pieces;
+  }
+
+  const parts = text.split(separator);
+  const pieces: string[] = [];
+  let current = "";
+
+  parts.forEach((part, index) => {
+    const piece = index < parts.length - 1 ? part + separator : part;
+    const fits = countTokens(piece) <= maxTokens;
+
+    // Table parts carry their own header row and stay separate chunks
+    if (!fits && isMarkdownTable(piece)) {
+      if (current) pieces.push(current);
+      current = "";
+      pieces.push(...splitMarkdownTable(piece, maxTokens, countTokens));
+      return;
+    }
+
+    // Finer pieces of an oversized part are merged with their neighbours again
+    const subPieces = fits ? [piece] : splitRecursive(piece, remaining, maxTokens, countTokens);
+    for (const subPiece of subPieces) {
+      if (current && countTokens(current + subPiece) > maxTokens) {
+        pieces.push(current);
+        current = "";
+      }
+      current += subPiece;
+    }
+  });
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Recursive character splitting: paragraphs, then lines, sentences and words
+ */
+function chunkRecursive(text: string, context: ChunkingContext): TextChunk[] {
+  const { chunkSize, overlap, countTokens } = context;
+  const overlapBudget = Math.min(overlap, Math.floor(chunkSize / 2));
+
+  const pieces = splitRecursive(text, RECURSIVE_SEPARATORS, chunkSize - overlapBudget, countTokens)
+    .map((piece) => piece.trim())
+    .filter((piece) => piece);
+
+  return pieces.map((piece, index) => {
+    if (isMarkdownTable(piece)) {
+      return buildChunk("", "", piece, { is_table: true });
+    }
+
+    const overlapText =
+      index > 0 ? takeTrailingWords(pieces[index - 1], overlapBudget, countTokens) : "";
+    return buildChunk("", overlapText, piece);
+  });
+}
+
+/**
+ * Each sentence becomes a chunk together with its neighbouring sentences
+ * focus_start/focus_end mark the sentence the chunk is built around
+ */
+function chunkBySentenceWindow(text: string, context: ChunkingContext): TextChunk[] {
+  const { chunkSize, countTokens } = context;
+
+  // Tables are kept whole (split between rows when oversized) and treated as one sentence
+  const sentences: string[] = [];
+  for (const block of splitTableBlocks(text)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+    if (isMarkdownTable(trimmed)) {
+      sentences.push(...splitMarkdownTable(trimmed, chunkSize, countTokens));
+    } else {
+      sentences.push(...splitSentences(trimmed));
+    }
+  }
+
+  return sentences.map((sentence, index) => {
+    const before = sentences.slice(Math.max(0, index - SENTENCE_WINDOW_SIZE), index);
+    const after = sentences.slice(index + 1, index + 1 + SENTENCE_WINDOW_SIZE);
+
+    // Drop the farthest neighbours until the window fits
+    while (
+      (before.length > 0 || after.length > 0) &&
+      countTokens([...before, sentence, ...after].join("\n")) > chunkSize
+    ) {
+      if (before.length >= after.length) {
+        before.shift();
+      } else {
+        after.pop();
+      }
+    }
+
+    const focusStart = before.length > 0 ? before.join("\n").length + 1 : 0;
+    return {
+      text: [...before, sentence, ...after].join("\n"),
+      metadata: {
+        sentence_index: index,
+        focus_start: focusStart,
+        focus_end: focusStart + sentence.length,
+        ...(isMarkdownTable(sentence) ? { is_table: true } : {}),
+      },
+    };
+  });
+}
+
+/**
+ * Fixed-size windows of chunkSize tokens, cut at word boundaries, stepping back by the overlap
+ */
+function chunkFixedSize(text: string, context: ChunkingContext): TextChunk[] {
+  const { chunkSize, overlap, countTokens } = context;
+  const overlapBudget = Math.min(overlap, Math.floor(chunkSize / 2));
+
+  // Words keep their trailing whitespace so line breaks survive
+  const words = text.match(/\S+\s*/g) || [];
+  const wordTokens = words.map((word) => countTokens(word));
+  const chunks: TextChunk[] = [];
+
+  let start = 0;
+  let overlapLength = 0;
+
+  while (start < words.length) {
+    let end = start;
+    let tokens = 0;
+    while (end < words.length && (end === start || tokens + wordTokens[end] <= chunkSize)) {
+      tokens += wordTokens[end];
+      end++;
+    }
+
+    const metadata: ChunkMetadata =
+      overlapLength > 0 ? { overlap_start: 0, overlap_end: overlapLength } : {};
+    chunks.push({ text: words.slice(start, end).join("").trim(), metadata });
+
+    if (end >= words.length) break;
+
+    // Step back over whole words that fit the overlap budget
+    let next = end;
+    let overlapTokens = 0;
+    while (next > start + 1 && overlapTokens + wordTokens[next - 1] <= overlapBudget) {
+      next--;
+      overlapTokens += wordTokens[next];
+    }
+
+    overlapLength = words.slice(next, end).join("").trimEnd().length;
+    start = next;
+  }
+
+  return chunks;
+}
+
+registerChunkingStrategy({
+  name: "markdown-heading",
+  description: "Sections split at Markdown headings, titled with the heading path",
+  chunk: chunkByMarkdownHeadings,
+});
+
+registerChunkingStrategy({
+  name: "recursive",
+  description: "Recursive character splitting on paragraphs, lines, sentences and words",
+  chunk: chunkRecursive,
+});
+
+registerChunkingStrategy({
+  name: "sentence-window",
+  description: `One chunk per sentence with up to ${SENTENCE_WINDOW_SIZE} neighbouring sentences each side`,
+  chunk: chunkBySentenceWindow,
+});
+
+registerChunkingStrategy({
+  name: "fixed-size",
+  description: "Fixed token windows cut at word boundaries",
+  chunk: chunkFixedSize,
+});
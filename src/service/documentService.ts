@@ -4,56 +4,150 @@
  * Uses Elasticsearch for storage - no PostgreSQL dependency
  */
 
+import crypto from "crypto";
 import fs from "fs-extra";
 import path from "path";
-import { DocumentMetadata, ChunkRecord } from "../types";
-
-// Embedding service (will use transformers.js for local embeddings)
-let embeddingPipeline: any = null;
+import {
+  DocumentMetadata,
+  DocumentProcessingResult,
+  DocumentVersion,
+  ChunkMetadata,
+  ChunkRecord,
+  ChunkingOptions,
+  CompiledSectionPattern,
+  ESChunk,
+  IndexChangeCounts,
+  PiiPolicy,
+  PiiReport,
+  ProgressCallback,
+  PropertyInfo,
+  TextChunk,
+  TokenReport,
+} from "../types";
+import {
+  extractTextFromSpreadsheet,
+  isSpreadsheetFile,
+  ROW_BLOCK_SEPARATOR,
+  SpreadsheetExtractionOptions,
+} from "./spreadsheetExtractor";
+import { detectContentType, SUPPORTED_UPLOAD_TYPES } from "./formatDetector";
+import { extractTextFromHtml, htmlToText } from "./htmlExtractor";
+import { extractTextFromPdf } from "./pdfExtractor";
+import { normalizeVietnamese } from "./vietnameseText";
+import { isMarkdownTable, splitMarkdownTable, splitTableBlocks } from "./markdownTable";
+import {
+  getChunkingStrategy,
+  listChunkingStrategies,
+  registerChunkingStrategy,
+  resolveChunkingStrategyName,
+  takeTrailingSentences,
+} from "./chunkingStrategies";
+import { getDefaultSectionPatterns, getSectionPatterns } from "./sectionPatterns";
+import { extractTextFromOdt } from "./odtExtractor";
+import { extractTextFromRtf } from "./rtfExtractor";
+import { EmbeddingPriority } from "./embeddingPool";
+import { EmbeddingProvider, getEmbeddingProvider } from "./embeddingProvider";
+import { cacheEmbeddings, getCachedEmbeddings } from "./embeddingCache";
+import { fetchRemoteFile } from "./remoteFetch";
+import { emitWebhookEvent } from "./webhooks";
+import { scanPii } from "./piiScanner";
+import { extractRentalTerms } from "./rentalTerms";
+
+// Active embedding provider; resolves once it is initialized
+let embeddingModelReady: Promise<EmbeddingProvider> | null = null;
+
+// Tokenizer of the embedding model, used for chunk sizing once the model is loaded
+let embeddingTokenizer: any = null;
+
+// Texts per pipeline invocation in generateEmbeddings
+const EMBEDDING_BATCH_SIZE = parseInt(process.env.EMBEDDING_BATCH_SIZE || "16", 10);
+
+export interface EmbeddingOptions {
+  batchSize?: number;
+  // Query embeddings are served before queued ingestion batches
+  priority?: EmbeddingPriority;
+  // Called after each batch with the number of texts embedded so far
+  onBatch?: (processed: number, total: number) => void;
+}
 
 /**
- * Initialize the embedding model
+ * Initialize the embedding provider selected by EMBEDDING_PROVIDER
+ * (the local provider loads its tokenizer here and starts the worker pool)
  */
-export async function initializeEmbeddingModel(): Promise<any> {
-  if (embeddingPipeline) {
-    return embeddingPipeline;
-  }
-
-  try {
-    console.log("[DocumentService] Initializing embedding model...");
-    const { pipeline } = await import("@xenova/transformers");
+export async function initializeEmbeddingModel(): Promise<EmbeddingProvider> {
+  if (!embeddingModelReady) {
+    embeddingModelReady = (async () => {
+      const provider = getEmbeddingProvider();
+      console.log(
+        `[DocumentService] Initializing embedding provider ${provider.name} (${provider.model})...`
+      );
 
-    // Using all-MiniLM-L6-v2 which produces 384-dim embeddings (faster)
-    // For 768-dim, use 'sentence-transformers/all-mpnet-base-v2'
-    embeddingPipeline = await pipeline("feature-extraction", "Xenova/all-MiniLM-L6-v2");
+      await provider.initialize();
+      embeddingTokenizer = provider.tokenizer;
 
-    console.log("[DocumentService] Embedding model initialized successfully");
-    return embeddingPipeline;
-  } catch (error) {
-    console.error(
-      "[DocumentService] Error initializing embedding model:",
-      (error as Error).message
-    );
-    throw error;
+      console.log(
+        `[DocumentService] Embedding provider initialized successfully (${provider.dims} dims)`
+      );
+      return provider;
+    })().catch((error) => {
+      embeddingModelReady = null;
+      console.error(
+        "[DocumentService] Error initializing embedding model:",
+        (error as Error).message
+      );
+      throw error;
+    });
   }
+
+  return embeddingModelReady;
 }
 
 /**
- * Generate embedding for text
+ * Generate embedding for a query
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
-  const model = await initializeEmbeddingModel();
+  const [embedding] = await generateEmbeddings([text], { priority: "query" });
+  return embedding;
+}
+
+/**
+ * Generate embeddings for many texts, sending batches of uncached texts to the provider
+ * Defaults to ingestion priority; query-priority texts get the model's query prefix,
+ * ingestion texts its passage prefix
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  options: EmbeddingOptions = {}
+): Promise<number[][]> {
+  const { batchSize = EMBEDDING_BATCH_SIZE, priority = "ingestion", onBatch } = options;
+  const provider = await initializeEmbeddingModel();
+
+  const prefix = priority === "query" ? provider.queryPrefix : provider.passagePrefix;
+  // Normalized here as well, so every caller's texts embed like the indexed chunks
+  const inputs = texts.map((text) => prefix + normalizeVietnamese(text));
+  const cacheModel = `${provider.name}:${provider.model}`;
+  const size = Math.max(1, batchSize);
 
   try {
-    const output = await model(text, {
-      pooling: "mean",
-      normalize: true,
-    });
+    const embeddings = await getCachedEmbeddings(cacheModel, inputs);
+    const uncached = inputs.map((_input, i) => i).filter((i) => !embeddings[i]);
+    let processed = texts.length - uncached.length;
+
+    for (let i = 0; i < uncached.length; i += size) {
+      const indexes = uncached.slice(i, i + size);
+      const batch = indexes.map((index) => inputs[index]);
+      const batchEmbeddings = await provider.embed(batch, priority);
 
-    // Convert to array
-    return Array.from(output.data);
+      indexes.forEach((index, j) => (embeddings[index] = batchEmbeddings[j]));
+      await cacheEmbeddings(cacheModel, batch, batchEmbeddings);
+
+      processed += batch.length;
+      onBatch?.(processed, texts.length);
+    }
+
+    return embeddings as number[][];
   } catch (error) {
-    console.error("[DocumentService] Error generating embedding:", (error as Error).message);
+    console.error("[DocumentService] Error generating embeddings:", (error as Error).message);
     throw error;
   }
 }
@@ -61,126 +155,65 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 /**
  * Estimate token count (approximate: 1 token ≈ 4 characters for Vietnamese/English mix)
  */
-function estimateTokenCount(text: string): number {
+export function estimateTokenCount(text: string): number {
   return Math.ceil(text.length / 4);
 }
 
 /**
- * Semantic section patterns for Vietnamese property documents
+ * Count tokens with the embedding model's tokenizer (special tokens excluded)
+ * Falls back to estimateTokenCount until the model is loaded
  */
-interface SemanticSection {
+export function countTokens(text: string): number {
+  if (!embeddingTokenizer) {
+    return estimateTokenCount(text);
+  }
+  return embeddingTokenizer.encode(text, null, { add_special_tokens: false }).length;
+}
+
+/**
+ * Number of special tokens ([CLS]/[SEP]) the tokenizer adds to every input
+ */
+function countSpecialTokens(): number {
+  if (!embeddingTokenizer) {
+    return 2;
+  }
+  return embeddingTokenizer.encode("", null, { add_special_tokens: true }).length;
+}
+
+/**
+ * Largest chunk (in tokens, special tokens and passage prefix excluded) that embeds
+ * without truncation
+ */
+export function getMaxChunkTokens(): number {
+  // Longest input (special tokens included) the provider embeds without truncation
+  const { maxTokens, passagePrefix } = getEmbeddingProvider();
+  const modelMaxLength = embeddingTokenizer?.model_max_length || maxTokens;
+  const prefixTokens = passagePrefix ? countTokens(passagePrefix) : 0;
+  return Math.min(maxTokens, modelMaxLength) - countSpecialTokens() - prefixTokens;
+}
+
+/**
+ * Semantic section detected in a document
+ * matched: false for leftover content that no section pattern captured
+ */
+export interface SemanticSection {
   title: string;
   content: string;
   priority: number; // Higher priority = more important
+  start: number;
+  matched: boolean;
 }
 
 /**
  * Detect semantic sections in document based on headers and structure
+ * Patterns default to the configured Vietnamese property document sections
  */
-function detectSemanticSections(text: string): SemanticSection[] {
+export function detectSemanticSections(
+  text: string,
+  sectionPatterns: CompiledSectionPattern[] = getDefaultSectionPatterns()
+): SemanticSection[] {
   const sections: SemanticSection[] = [];
 
-  // Common Vietnamese document section patterns
-  const sectionPatterns = [
-    // Basic information sections
-    {
-      regex:
-        /(?:^|\n)(?:I\.|1\.|###?)\s*(Thông tin cơ bản|Thông tin chung|Giới thiệu)[\s\S]*?(?=(?:\n(?:II\.|2\.|###?)|\n#{1,3}\s|$))/gi,
-      title: "Thông tin cơ bản",
-      priority: 10,
-    },
-    {
-      regex:
-        /(?:^|\n)(?:Thông tin phòng trọ|Mô tả phòng)[:\s]*([^\n]+(?:\n(?!(?:II\.|2\.|###?|Giá|Địa chỉ|Hợp đồng|Quy định))[^\n]+)*)/gi,
-      title: "Thông tin phòng trọ",
-      priority: 10,
-    },
-
-    // Pricing sections
-    {
-      regex:
-        /(?:^|\n)(?:II\.|2\.|###?)\s*(Giá thuê|Giá cả|Chi phí)[\s\S]*?(?=(?:\n(?:III\.|3\.|###?)|\n#{1,3}\s|$))/gi,
-      title: "Thông tin giá thuê",
-      priority: 9,
-    },
-    {
-      regex:
-        /(?:^|\n)(?:Giá thuê|Giá)[:\s]*([^\n]+(?:\n(?!(?:III\.|3\.|###?|Địa chỉ|Hợp đồng|Quy định))[^\n]+)*)/gi,
-      title: "Thông tin giá thuê",
-      priority: 9,
-    },
-
-    // Location/Address sections
-    {
-      regex:
-        /(?:^|\n)(?:III\.|3\.|###?)\s*(Địa chỉ|Vị trí|Khu vực)[\s\S]*?(?=(?:\n(?:IV\.|4\.|###?)|\n#{1,3}\s|$))/gi,
-      title: "Thông tin địa chỉ",
-      priority: 9,
-    },
-    {
-      regex:
-        /(?:^|\n)(?:Địa chỉ)[:\s]*([^\n]+(?:\n(?!(?:IV\.|4\.|###?|Hợp đồng|Quy định))[^\n]+)*)/gi,
-      title: "Thông tin địa chỉ",
-      priority: 9,
-    },
-
-    // Contract sections
-    {
-      regex:
-        /(?:^|\n)(?:IV\.|4\.|###?)\s*(Hợp đồng|Điều khoản hợp đồng|Thỏa thuận)[\s\S]*?(?=(?:\n(?:V\.|5\.|###?)|\n#{1,3}\s|$))/gi,
-      title: "Thông tin hợp đồng",
-      priority: 8,
-    },
-    {
-      regex:
-        /(?:^|\n)(?:Hợp đồng|Điều khoản)[:\s]*([^\n]+(?:\n(?!(?:V\.|5\.|###?|Quy định|Tiện ích))[^\n]+)*)/gi,
-      title: "Thông tin hợp đồng",
-      priority: 8,
-    },
-
-    // Rules and regulations
-    {
-      regex:
-        /(?:^|\n)(?:V\.|5\.|###?)\s*(Quy định|Nội quy|Quy tắc|Lưu ý)[\s\S]*?(?=(?:\n(?:VI\.|6\.|###?)|\n#{1,3}\s|$))/gi,
-      title: "Quy định và nội quy",
-      priority: 7,
-    },
-    {
-      regex:
-        /(?:^|\n)(?:Quy định|Nội quy)[:\s]*([^\n]+(?:\n(?!(?:VI\.|6\.|###?|Tiện ích|Liên hệ))[^\n]+)*)/gi,
-      title: "Quy định và nội quy",
-      priority: 7,
-    },
-
-    // Amenities/Utilities
-    {
-      regex:
-        /(?:^|\n)(?:VI\.|6\.|###?)\s*(Tiện ích|Tiện nghi|Cơ sở vật chất)[\s\S]*?(?=(?:\n(?:VII\.|7\.|###?)|\n#{1,3}\s|$))/gi,
-      title: "Tiện ích và tiện nghi",
-      priority: 6,
-    },
-    {
-      regex:
-        /(?:^|\n)(?:Tiện ích|Tiện nghi)[:\s]*([^\n]+(?:\n(?!(?:VII\.|7\.|###?|Liên hệ))[^\n]+)*)/gi,
-      title: "Tiện ích và tiện nghi",
-      priority: 6,
-    },
-
-    // Contact/Summary sections
-    {
-      regex:
-        /(?:^|\n)(?:VII\.|7\.|###?)\s*(Liên hệ|Thông tin liên hệ|Tổng kết)[\s\S]*?(?=(?:\n(?:VIII\.|8\.|###?)|\n#{1,3}\s|$))/gi,
-      title: "Thông tin liên hệ",
-      priority: 5,
-    },
-    {
-      regex:
-        /(?:^|\n)(?:Tóm tắt|Kết luận|Tổng kết)[:\s]*([^\n]+(?:\n(?!(?:VIII\.|8\.|###?))[^\n]+)*)/gi,
-      title: "Tóm tắt",
-      priority: 5,
-    },
-  ];
-
   // Track matched positions to find unmatched content
   interface MatchedRange {
     start: number;
@@ -216,6 +249,8 @@ function detectSemanticSections(text: string): SemanticSection[] {
           title: pattern.title,
           content: content,
           priority: pattern.priority,
+          start: startPos,
+          matched: true,
         });
       }
     }
@@ -225,33 +260,40 @@ function detectSemanticSections(text: string): SemanticSection[] {
   matchedRanges.sort((a, b) => a.start - b.start);
 
   // Find unmatched content (gaps between matched sections)
-  const unmatchedSections: string[] = [];
+  const unmatchedSections: { content: string; start: number }[] = [];
   let lastEnd = 0;
 
+  const addUnmatched = (from: number, to: number) => {
+    const raw = text.substring(from, to);
+    const unmatchedContent = raw.trim();
+    if (unmatchedContent.length > 50) {
+      unmatchedSections.push({
+        content: unmatchedContent,
+        start: from + raw.length - raw.trimStart().length,
+      });
+    }
+  };
+
   for (const range of matchedRanges) {
     if (range.start > lastEnd) {
-      const unmatchedContent = text.substring(lastEnd, range.start).trim();
-      if (unmatchedContent.length > 50) {
-        unmatchedSections.push(unmatchedContent);
-      }
+      addUnmatched(lastEnd, range.start);
     }
     lastEnd = Math.max(lastEnd, range.end);
   }
 
   // Check for content after the last matched section
   if (lastEnd < text.length) {
-    const remainingContent = text.substring(lastEnd).trim();
-    if (remainingContent.length > 50) {
-      unmatchedSections.push(remainingContent);
-    }
+    addUnmatched(lastEnd, text.length);
   }
 
   // Add unmatched sections as "Other/Description" sections with lower priority
   for (let i = 0; i < unmatchedSections.length; i++) {
     sections.push({
       title: unmatchedSections.length === 1 ? "Mô tả khác" : `Mô tả khác - Phần ${i + 1}`,
-      content: unmatchedSections[i],
+      content: unmatchedSections[i].content,
       priority: 3, // Lower priority than specific sections
+      start: unmatchedSections[i].start,
+      matched: false,
     });
   }
 
@@ -260,12 +302,12 @@ function detectSemanticSections(text: string): SemanticSection[] {
     if (a.priority !== b.priority) {
       return b.priority - a.priority;
     }
-    return text.indexOf(a.content) - text.indexOf(b.content);
+    return a.start - b.start;
   });
 
   console.log(
     `[Chunking] Detected ${sections.length} sections (${
-      sections.filter((s) => s.priority === 3).length
+      sections.filter((s) => !s.matched).length
     } unmatched)`
   );
 
@@ -275,19 +317,24 @@ function detectSemanticSections(text: string): SemanticSection[] {
 /**
  * Chunk text by semantic sections with proper titles
  */
-function chunkBySemantic(text: string, maxTokens: number = 400): string[] {
-  const chunks: string[] = [];
-  const sections = detectSemanticSections(text);
+function chunkBySemantic(
+  text: string,
+  maxTokens: number = 400,
+  overlapTokens: number = 0,
+  sectionPatterns?: CompiledSectionPattern[]
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const sections = detectSemanticSections(text, sectionPatterns);
 
   if (sections.length === 0) {
     // If no sections detected at all, treat entire text as "Other description"
     console.log(`[Chunking] No semantic sections detected, chunking entire text as description`);
-    const textTokens = estimateTokenCount(text);
+    const textTokens = countTokens(text);
 
     if (textTokens <= maxTokens) {
-      chunks.push(`[Mô tả khác]\n${text}`);
+      chunks.push(createChunk(`[Mô tả khác]\n${text}`, "Mô tả khác"));
     } else {
-      const subsections = splitLongSection(text, "Mô tả khác", maxTokens);
+      const subsections = splitLongSection(text, "Mô tả khác", maxTokens, overlapTokens);
       chunks.push(...subsections);
     }
     return chunks;
@@ -296,15 +343,25 @@ function chunkBySemantic(text: string, maxTokens: number = 400): string[] {
   console.log(`[Chunking] Found ${sections.length} semantic sections`);
 
   for (const section of sections) {
-    const sectionTokens = estimateTokenCount(section.content);
+    const sectionTokens = countTokens(section.content);
 
     // If section is small enough, create one chunk with title
     if (sectionTokens <= maxTokens) {
       const chunkWithTitle = `[${section.title}]\n${section.content}`;
-      chunks.push(chunkWithTitle);
+      chunks.push(
+        createChunk(chunkWithTitle, section.title, { section_priority: section.priority })
+      );
     } else {
       // Split large section into smaller chunks but keep the title
-      const subsections = splitLongSection(section.content, section.title, maxTokens);
+      const subsections = splitLongSection(
+        section.content,
+        section.title,
+        maxTokens,
+        overlapTokens
+      );
+      for (const subsection of subsections) {
+        subsection.metadata.section_priority = section.priority;
+      }
       chunks.push(...subsections);
     }
   }
@@ -312,86 +369,323 @@ function chunkBySemantic(text: string, maxTokens: number = 400): string[] {
   return chunks;
 }
 
+function createChunk(text: string, sectionTitle: string, metadata: ChunkMetadata = {}): TextChunk {
+  return {
+    text: text.trim(),
+    metadata: { section_title: sectionTitle, ...metadata },
+  };
+}
+
+/**
+ * Content of a chunk without its "[Section title]" header line
+ */
+export function chunkBody(chunkText: string): string {
+  return chunkText.replace(/^\[.*?\]\n/, "");
+}
+
 /**
  * Split a long section into smaller chunks while preserving context
+ * Consecutive sub-chunks repeat the trailing sentences of the previous sub-chunk (overlap)
+ * Markdown tables are atomic: they are never sentence-split, and oversized tables
+ * are divided between rows with the header repeated
  */
-function splitLongSection(content: string, sectionTitle: string, maxTokens: number): string[] {
-  const chunks: string[] = [];
-  const paragraphs = content.split(/\n\n+/);
+function splitLongSection(
+  content: string,
+  sectionTitle: string,
+  maxTokens: number,
+  overlapTokens: number = 0
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const paragraphs = splitTableBlocks(content);
+
+  // Overlap never takes more than half of a chunk
+  const overlapBudget = Math.min(overlapTokens, Math.floor(maxTokens / 2));
+
+  let currentChunk = "";
+  let currentTokens = 0;
+  let emptyChunkTokens = 0;
+  let overlapLength = 0;
+
+  // Start a new chunk, carrying over trailing sentences from the previous sub-chunk
+  const openChunk = (header: string) => {
+    const previous = chunks[chunks.length - 1];
+    const overlapText =
+      previous && !previous.metadata.is_table
+        ? takeTrailingSentences(chunkBody(previous.text), overlapBudget, countTokens)
+        : "";
+
+    currentChunk = overlapText ? `${header}\n${overlapText}\n\n` : `${header}\n`;
+    overlapLength = overlapText.length;
+    currentTokens = countTokens(currentChunk);
+    emptyChunkTokens = currentTokens;
+  };
+
+  const pushChunk = (text: string, isTable: boolean = false) => {
+    const headerLength = text.indexOf("\n") + 1;
+    const metadata: ChunkMetadata = isTable ? { is_table: true } : {};
+
+    if (!isTable && overlapLength > 0) {
+      metadata.overlap_start = headerLength;
+      metadata.overlap_end = headerLength + overlapLength;
+    }
+
+    chunks.push(createChunk(text, sectionTitle, metadata));
+  };
 
-  let currentChunk = `[${sectionTitle}]\n`;
-  let currentTokens = estimateTokenCount(currentChunk);
+  openChunk(`[${sectionTitle}]`);
 
   for (let i = 0; i < paragraphs.length; i++) {
     const paragraph = paragraphs[i].trim();
     if (!paragraph) continue;
 
-    const paragraphTokens = estimateTokenCount(paragraph);
+    const paragraphTokens = countTokens(paragraph);
+
+    // If a table exceeds max, split it between rows
+    if (paragraphTokens > maxTokens && isMarkdownTable(paragraph)) {
+      if (currentTokens > emptyChunkTokens) {
+        pushChunk(currentChunk);
+      }
+
+      const titleTokens = countTokens(`[${sectionTitle} - Phần ${chunks.length + 1}]\n`);
+      const tableParts = splitMarkdownTable(paragraph, maxTokens - titleTokens, countTokens);
+      for (const tablePart of tableParts) {
+        pushChunk(`[${sectionTitle} - Phần ${chunks.length + 1}]\n${tablePart}`, true);
+      }
+
+      openChunk(`[${sectionTitle}]`);
+      continue;
+    }
 
     // If single paragraph exceeds max, split it further
     if (paragraphTokens > maxTokens) {
       // Save current chunk if it has content
-      if (currentTokens > estimateTokenCount(`[${sectionTitle}]\n`)) {
-        chunks.push(currentChunk.trim());
+      if (currentTokens > emptyChunkTokens) {
+        pushChunk(currentChunk);
       }
 
       // Split long paragraph by sentences
       const sentences = paragraph.split(/[.!?。]+/).filter((s) => s.trim());
-      let sentenceChunk = `[${sectionTitle} - Phần ${chunks.length + 1}]\n`;
-      let sentenceTokens = estimateTokenCount(sentenceChunk);
+      openChunk(`[${sectionTitle} - Phần ${chunks.length + 1}]`);
 
       for (const sentence of sentences) {
         const sentenceWithPunct = sentence.trim() + ".";
-        const tokens = estimateTokenCount(sentenceWithPunct);
-
-        if (sentenceTokens + tokens > maxTokens && sentenceTokens > 0) {
-          chunks.push(sentenceChunk.trim());
-          sentenceChunk = `[${sectionTitle} - Phần ${chunks.length + 1}]\n${sentenceWithPunct}\n`;
-          sentenceTokens = estimateTokenCount(sentenceChunk);
-        } else {
-          sentenceChunk += sentenceWithPunct + " ";
-          sentenceTokens += tokens;
+        const tokens = countTokens(sentenceWithPunct);
+
+        if (currentTokens + tokens > maxTokens && currentTokens > emptyChunkTokens) {
+          pushChunk(currentChunk);
+          openChunk(`[${sectionTitle} - Phần ${chunks.length + 1}]`);
         }
+        currentChunk += sentenceWithPunct + " ";
+        currentTokens += tokens;
       }
 
-      if (sentenceTokens > 0) {
-        chunks.push(sentenceChunk.trim());
+      if (currentTokens > emptyChunkTokens) {
+        pushChunk(currentChunk);
       }
 
       // Reset for next paragraph
-      currentChunk = `[${sectionTitle}]\n`;
-      currentTokens = estimateTokenCount(currentChunk);
+      openChunk(`[${sectionTitle}]`);
       continue;
     }
 
     // Check if adding this paragraph would exceed the limit
-    if (
-      currentTokens + paragraphTokens > maxTokens &&
-      currentTokens > estimateTokenCount(`[${sectionTitle}]\n`)
-    ) {
-      chunks.push(currentChunk.trim());
-      currentChunk = `[${sectionTitle} - Tiếp theo]\n${paragraph}\n\n`;
-      currentTokens = estimateTokenCount(currentChunk);
-    } else {
-      currentChunk += paragraph + "\n\n";
-      currentTokens += paragraphTokens;
+    if (currentTokens + paragraphTokens > maxTokens && currentTokens > emptyChunkTokens) {
+      pushChunk(currentChunk);
+      openChunk(`[${sectionTitle} - Tiếp theo]`);
     }
+
+    currentChunk += paragraph + "\n\n";
+    currentTokens += paragraphTokens;
   }
 
   // Add remaining content
-  if (currentTokens > estimateTokenCount(`[${sectionTitle}]\n`)) {
-    chunks.push(currentChunk.trim());
+  if (currentTokens > emptyChunkTokens) {
+    pushChunk(currentChunk);
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk spreadsheet row blocks: every block (one row or a small group of rows) is its own chunk
+ * Blocks that exceed the token budget are split by line, repeating the block title
+ */
+function chunkByRows(text: string, maxTokens: number = 400): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const blocks = text.split(ROW_BLOCK_SEPARATOR).filter((block) => block.trim());
+
+  for (const block of blocks) {
+    const titleLine = block.trim().split("\n")[0];
+    const sectionTitle = titleLine.replace(/^\[|\]$/g, "");
+
+    if (countTokens(block) <= maxTokens) {
+      chunks.push(createChunk(block, sectionTitle));
+      continue;
+    }
+
+    const lines = block.trim().split("\n").slice(1);
+    let currentChunk = titleLine;
+
+    for (const line of lines) {
+      if (
+        countTokens(currentChunk + "\n" + line) > maxTokens &&
+        currentChunk !== titleLine
+      ) {
+        chunks.push(createChunk(currentChunk, sectionTitle));
+        currentChunk = titleLine;
+      }
+      currentChunk += "\n" + line;
+    }
+
+    if (currentChunk !== titleLine) {
+      chunks.push(createChunk(currentChunk, sectionTitle));
+    }
   }
 
+  console.log(`[Chunking] Created ${chunks.length} row chunks from ${blocks.length} row blocks`);
   return chunks;
 }
 
 /**
- * Smart chunking: Try semantic first, fallback to length-based
+ * Pack text into pieces within the token budget
+ * Tables are split between rows; other text by sentence, then by word for overlong sentences
+ */
+function splitByTokenBudget(text: string, budget: number): string[] {
+  const units: string[] = [];
+
+  for (const block of splitTableBlocks(text)) {
+    if (!block.trim()) continue;
+
+    if (isMarkdownTable(block)) {
+      units.push(...splitMarkdownTable(block, budget, countTokens));
+      continue;
+    }
+
+    for (const sentence of block.split(/(?<=[.!?。])\s+|\n+/)) {
+      if (!sentence.trim()) continue;
+      if (countTokens(sentence) <= budget) {
+        units.push(sentence.trim());
+      } else {
+        units.push(...sentence.split(/\s+/).filter((word) => word));
+      }
+    }
+  }
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const unit of units) {
+    const unitTokens = countTokens(unit);
+    if (current.length > 0 && currentTokens + unitTokens > budget) {
+      pieces.push(current.join("\n"));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(unit);
+    currentTokens += unitTokens;
+  }
+
+  if (current.length > 0) {
+    pieces.push(current.join("\n"));
+  }
+
+  return pieces;
+}
+
+/**
+ * Split chunks that still exceed the embedding model's input limit and record token counts
+ * Split pieces repeat the chunk's "[Section title]" header
+ */
+function enforceTokenLimit(chunks: TextChunk[], maxTokens: number): TextChunk[] {
+  const result: TextChunk[] = [];
+
+  for (const chunk of chunks) {
+    const tokens = countTokens(chunk.text);
+    if (tokens <= maxTokens) {
+      result.push({ text: chunk.text, metadata: { ...chunk.metadata, token_count: tokens } });
+      continue;
+    }
+
+    const header = chunk.text.match(/^\[.*?\]\n/)?.[0] || "";
+    const pieces = splitByTokenBudget(
+      chunk.text.slice(header.length),
+      maxTokens - countTokens(header)
+    );
+
+    console.warn(
+      `[Chunking] Chunk "${chunk.metadata.section_title}" has ${tokens} tokens (limit ${maxTokens}), split into ${pieces.length} parts`
+    );
+
+    // Overlap and focus offsets no longer apply once the chunk is re-split
+    const {
+      overlap_start: _overlapStart,
+      overlap_end: _overlapEnd,
+      focus_start: _focusStart,
+      focus_end: _focusEnd,
+      ...metadata
+    } = chunk.metadata;
+    for (const piece of pieces) {
+      const pieceText = header + piece;
+      result.push({
+        text: pieceText,
+        metadata: { ...metadata, token_count: countTokens(pieceText), token_limit_split: true },
+      });
+    }
+  }
+
+  return result;
+}
+
+registerChunkingStrategy({
+  name: "semantic",
+  description: "Vietnamese property document sections (giá thuê, địa chỉ, nội quy, ...)",
+  chunk: (text, { chunkSize, overlap, sectionPatterns }) =>
+    chunkBySemantic(text, chunkSize, overlap, sectionPatterns),
+});
+
+registerChunkingStrategy({
+  name: "rows",
+  description: "One chunk per spreadsheet row block",
+  chunk: (text, { chunkSize }) => chunkByRows(text, chunkSize),
+});
+
+/**
+ * Characters of original text a chunk covers, excluding its header and repeated context
+ */
+function capturedLength(chunk: TextChunk): number {
+  const { overlap_start, overlap_end, focus_start, focus_end } = chunk.metadata;
+  if (focus_start !== undefined && focus_end !== undefined) {
+    return focus_end - focus_start;
+  }
+
+  // Remove section headers like "[Mô tả khác]\n" and repeated overlap text
+  const overlapLength =
+    overlap_start !== undefined && overlap_end !== undefined ? overlap_end - overlap_start : 0;
+  return chunkBody(chunk.text).length - overlapLength;
+}
+
+/**
+ * Chunk text with the selected strategy (default: semantic sections, or rows for spreadsheets)
+ * Chunk size is capped at the embedding model's input limit so nothing is truncated
  */
-export function chunkText(text: string, chunkSize: number = 400): string[] {
+export function chunkText(text: string, options: ChunkingOptions = {}): TextChunk[] {
+  const { overlap = 0, format = "text" } = options;
+  const maxChunkTokens = getMaxChunkTokens();
+  const chunkSize = Math.min(options.chunkSize || 400, maxChunkTokens);
+
+  const strategyName = resolveChunkingStrategyName(options.strategy, format);
+  const strategy = getChunkingStrategy(strategyName);
+  if (!strategy) {
+    throw new Error(
+      `Unknown chunking strategy: ${strategyName}. Available: ${listChunkingStrategies()
+        .map(({ name }) => name)
+        .join(", ")}`
+    );
+  }
+
   console.log(
-    `[Chunking] Processing text of ${text.length} characters (≈${estimateTokenCount(text)} tokens)`
+    `[Chunking] Processing text of ${text.length} characters (${countTokens(text)} tokens)`
   );
 
   if (!text || text.trim().length === 0) {
@@ -399,17 +693,25 @@ export function chunkText(text: string, chunkSize: number = 400): string[] {
     return [];
   }
 
-  // Try semantic chunking first (will always return chunks now, never empty)
-  const semanticChunks = chunkBySemantic(text, chunkSize);
+  const chunks = enforceTokenLimit(
+    strategy.chunk(text, {
+      chunkSize,
+      overlap,
+      countTokens,
+      sectionPatterns: options.sectionPatterns,
+    }),
+    maxChunkTokens
+  );
 
-  console.log(`[Chunking] Created ${semanticChunks.length} semantic chunks`);
+  console.log(`[Chunking] Created ${chunks.length} chunks with strategy "${strategyName}"`);
+
+  // Spreadsheet rows add block titles, so capture rate is only meaningful for text
+  if (format === "rows") {
+    return chunks;
+  }
 
   // Verify we captured all content by comparing total length
-  const totalChunkLength = semanticChunks.reduce((sum, chunk) => {
-    // Remove section headers like "[Mô tả khác]\n" to get actual content length
-    const contentWithoutHeader = chunk.replace(/^\[.*?\]\n/, "");
-    return sum + contentWithoutHeader.length;
-  }, 0);
+  const totalChunkLength = chunks.reduce((sum, chunk) => sum + capturedLength(chunk), 0);
 
   const originalLength = text.length;
   const captureRate = (totalChunkLength / originalLength) * 100;
@@ -424,56 +726,291 @@ export function chunkText(text: string, chunkSize: number = 400): string[] {
     console.warn(`[Chunking] Low capture rate detected! Some content may be missing.`);
   }
 
-  return semanticChunks;
+  return chunks;
+}
+
+export const PROPERTY_HEADER_TITLE = "Thông tin phòng trọ";
+
+/**
+ * Chunks for the property enrichment header ("Giá thuê: ... VND/tháng", ...), empty when the
+ * metadata has no property fields. The header is indexed apart from the document body so
+ * a property sync can replace it alone
+ */
+export function buildPropertyHeaderChunks(info: PropertyInfo): TextChunk[] {
+  const parts: string[] = [];
+
+  if (info.description) {
+    parts.push(`${PROPERTY_HEADER_TITLE}: ${info.description}`);
+  }
+  if (info.price) {
+    parts.push(`Giá thuê: ${info.price} VND/tháng`);
+  }
+  if (info.room_size) {
+    parts.push(`Diện tích: ${info.room_size} m²`);
+  }
+  if (info.address_details) {
+    parts.push(`Địa chỉ: ${info.address_details}`);
+  }
+
+  if (parts.length === 0) {
+    return [];
+  }
+  return enforceTokenLimit(
+    [
+      createChunk(
+        normalizeVietnamese(`[${PROPERTY_HEADER_TITLE}]\n${parts.join("\n")}`),
+        PROPERTY_HEADER_TITLE,
+        { property_header: true }
+      ),
+    ],
+    getMaxChunkTokens()
+  );
+}
+
+/**
+ * Summarize chunk token counts against the model limit
+ */
+export function buildTokenReport(chunks: TextChunk[], requestedChunkSize: number): TokenReport {
+  const maxTokens = getMaxChunkTokens();
+  const warnings: string[] = [];
+
+  if (requestedChunkSize > maxTokens) {
+    warnings.push(
+      `chunk_size ${requestedChunkSize} exceeds the embedding model limit; reduced to ${maxTokens} tokens`
+    );
+  }
+
+  const splitChunks = chunks.filter((chunk) => chunk.metadata.token_limit_split).length;
+  if (splitChunks > 0) {
+    warnings.push(`${splitChunks} chunks were split to fit the ${maxTokens}-token model limit`);
+  }
+
+  chunks.forEach((chunk, index) => {
+    const tokens = chunk.metadata.token_count ?? countTokens(chunk.text);
+    if (tokens > maxTokens) {
+      warnings.push(`Chunk ${index} has ${tokens} tokens and will be truncated when embedded`);
+    }
+  });
+
+  return {
+    max_tokens: maxTokens,
+    tokenizer: embeddingTokenizer ? "model" : "estimate",
+    effective_chunk_size: Math.min(requestedChunkSize, maxTokens),
+    largest_chunk_tokens: Math.max(
+      0,
+      ...chunks.map((chunk) => chunk.metadata.token_count ?? countTokens(chunk.text))
+    ),
+    split_chunks: splitChunks,
+    warnings,
+  };
+}
+
+/**
+ * Hash of everything indexed for a chunk except its embedding and timestamp: the text plus
+ * the document-level fields copied onto every chunk, so a changed title or owner is re-indexed
+ * (the embedding cache keeps that from re-running the model)
+ */
+export function hashChunkContent(
+  chunk: TextChunk,
+  chunkingStrategy: string,
+  metadata: DocumentMetadata = {}
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        chunk.text,
+        chunk.metadata,
+        chunkingStrategy,
+        metadata.title || "Untitled",
+        metadata.owner_id,
+        metadata.property_id,
+        metadata.kb_scope,
+      ])
+    )
+    .digest("hex");
+}
+
+/**
+ * hashChunkContent of an indexed chunk, for chunks indexed before hashes were stored
+ */
+export function hashESChunkContent(chunk: ESChunk): string {
+  return hashChunkContent(
+    { text: chunk.chunk_text, metadata: chunk.chunk_metadata || {} },
+    chunk.chunking_strategy || "",
+    {
+      title: chunk.title,
+      owner_id: chunk.owner_id,
+      property_id: chunk.property_id,
+      kb_scope: chunk.kb_scope,
+    }
+  );
+}
+
+/**
+ * Chunk ids for the chunks of one document: "<document>-v<version>-<content hash prefix>"
+ * Identical chunks within a version are told apart by their order ("-2", "-3", ...), so the
+ * ids only depend on the content and must be assigned to a document's chunks all at once
+ */
+export function assignChunkIds(
+  chunks: Pick<ESChunk, "document_id" | "version" | "content_hash" | "chunk_index">[]
+): string[] {
+  const order = chunks
+    .map((_chunk, i) => i)
+    .sort(
+      (a, b) =>
+        (chunks[a].version ?? 0) - (chunks[b].version ?? 0) ||
+        chunks[a].chunk_index - chunks[b].chunk_index
+    );
+  const occurrences = new Map<string, number>();
+  const ids: string[] = new Array(chunks.length);
+
+  for (const i of order) {
+    const { document_id, version, content_hash } = chunks[i];
+    const versionPart = version !== undefined ? `-v${version}` : "";
+    const baseId = `${document_id}${versionPart}-${content_hash!.slice(0, 16)}`;
+
+    const occurrence = (occurrences.get(baseId) || 0) + 1;
+    occurrences.set(baseId, occurrence);
+    ids[i] = occurrence > 1 ? `${baseId}-${occurrence}` : baseId;
+  }
+  return ids;
 }
 
 /**
  * Process a document: extract text, chunk, and generate embeddings
  * Returns chunk records for Elasticsearch indexing (no database storage)
+ * and a token report flagging chunks that had to be split for the model limit
+ * When the document was indexed before, only chunks whose content isn't in its active version
+ * are embedded; indexChanges compares the new chunks with the active version
  */
 export async function processDocument(
   documentId: number,
   fullText: string,
-  metadata: DocumentMetadata = {}
-): Promise<ChunkRecord[]> {
+  metadata: DocumentMetadata = {},
+  onProgress?: ProgressCallback
+): Promise<DocumentProcessingResult> {
   try {
     console.log(`[DocumentService] Processing document ${documentId}...`);
 
+    // Load the model first so chunks are sized with its tokenizer
+    await initializeEmbeddingModel();
+
     // Chunk the text
+    onProgress?.("chunking");
     const chunkSize = metadata.chunk_size || 500;
-    const chunks = chunkText(fullText, chunkSize);
+    const chunkingStrategy = resolveChunkingStrategyName(
+      metadata.chunking_strategy,
+      metadata.content_format
+    );
+    // Indexed text is NFC with one tone placement, like the queries (see vietnameseText)
+    const bodyChunks = chunkText(normalizeVietnamese(fullText), {
+      chunkSize,
+      overlap: metadata.overlap ?? 0,
+      format: metadata.content_format,
+      strategy: chunkingStrategy,
+      sectionPatterns: await getSectionPatterns(metadata.owner_id),
+    });
+    // Property header chunks come first with negative chunk_index, so the body chunks keep
+    // their positions when a property sync changes the number of header chunks
+    const headerChunks = buildPropertyHeaderChunks(metadata);
+    const chunks = [...headerChunks, ...bodyChunks];
+    const tokenReport = buildTokenReport(chunks, chunkSize);
+    for (const warning of tokenReport.warnings) {
+      console.warn(`[DocumentService] Document ${documentId}: ${warning}`);
+    }
 
     console.log(`[DocumentService] Created ${chunks.length} chunks for document ${documentId}`);
 
-    // Process each chunk
-    const chunkRecords: ChunkRecord[] = [];
+    // Compare with the active version: chunks whose content is already indexed reuse its
+    // embedding, only new or changed chunks are embedded
+    const { getActiveDocumentChunks } = require("../elasticsearchClient");
+    const activeChunks: ESChunk[] = await getActiveDocumentChunks(documentId);
+    const activeHashes = new Map(
+      activeChunks.map((chunk) => [chunk.chunk_index, chunk.content_hash])
+    );
+    const indexedEmbeddings = new Map(
+      activeChunks
+        .filter((chunk) => chunk.content_hash)
+        .map((chunk) => [chunk.content_hash!, chunk.embedding])
+    );
+
+    const candidates = chunks.map((chunk, i) => ({
+      chunk,
+      index: i - headerChunks.length,
+      contentHash: hashChunkContent(chunk, chunkingStrategy, metadata),
+    }));
+    const newIndexes = new Set(candidates.map((candidate) => candidate.index));
+    const changed = candidates.filter(
+      (candidate) => activeHashes.get(candidate.index) !== candidate.contentHash
+    );
+    const toEmbed = candidates.filter((candidate) => !indexedEmbeddings.has(candidate.contentHash));
 
-    for (let i = 0; i < chunks.length; i++) {
-      const chunkText = chunks[i];
+    const indexChanges: IndexChangeCounts = {
+      added: changed.filter((candidate) => !activeHashes.has(candidate.index)).length,
+      updated: changed.filter((candidate) => activeHashes.has(candidate.index)).length,
+      removed: activeChunks.filter((chunk) => !newIndexes.has(chunk.chunk_index)).length,
+      unchanged: chunks.length - changed.length,
+    };
+    console.log(
+      `[DocumentService] Document ${documentId}: ${indexChanges.added} added, ` +
+        `${indexChanges.updated} updated, ${indexChanges.removed} removed, ` +
+        `${indexChanges.unchanged} unchanged`
+    );
+    onProgress?.("embedding", { processed: 0, total: toEmbed.length });
 
-      // Generate embedding directly from chunk text
-      // (metadata is already included in the text from enrichedFullText)
-      const embedding = await generateEmbedding(chunkText);
+    // Generate embeddings directly from chunk text in batches
+    // (metadata is already included in the text from enrichedFullText)
+    const embeddingStart = Date.now();
+    const embeddings = await generateEmbeddings(
+      toEmbed.map((candidate) => candidate.chunk.text),
+      {
+        onBatch: (processed, total) => {
+          console.log(`[DocumentService] Processed ${processed}/${total} chunks`);
+          onProgress?.("embedding", { processed, total });
+        },
+      }
+    );
+    toEmbed.forEach((candidate, i) => indexedEmbeddings.set(candidate.contentHash, embeddings[i]));
 
-      // Create chunk record (no database storage - only for Elasticsearch)
-      // Use a hash of document_id and index as chunk_id
-      const chunkId = parseInt(`${documentId}${i.toString().padStart(4, "0")}`);
+    const embeddingSeconds = Math.max((Date.now() - embeddingStart) / 1000, 0.001);
+    console.log(
+      `[DocumentService] Embedded ${toEmbed.length} chunks in ${embeddingSeconds.toFixed(1)}s (${(
+        toEmbed.length / embeddingSeconds
+      ).toFixed(1)} chunks/sec)`
+    );
 
-      chunkRecords.push({
-        chunk_id: chunkId,
+    // Create chunk records (no database storage - only for Elasticsearch)
+    const chunkIds = assignChunkIds(
+      candidates.map((candidate) => ({
         document_id: documentId,
-        chunk_text: chunkText,
-        chunk_index: i,
-        embedding: embedding, // For Elasticsearch indexing
-      });
+        version: metadata.version,
+        content_hash: candidate.contentHash,
+        chunk_index: candidate.index,
+      }))
+    );
+    const chunkRecords: ChunkRecord[] = candidates.map((candidate, i) => ({
+      chunk_id: chunkIds[i],
+      document_id: documentId,
+      chunk_text: candidate.chunk.text,
+      chunk_index: candidate.index,
+      chunk_metadata: candidate.chunk.metadata,
+      chunking_strategy: chunkingStrategy,
+      content_hash: candidate.contentHash,
+      version: metadata.version,
+      embedding: indexedEmbeddings.get(candidate.contentHash)!, // For Elasticsearch indexing
+    }));
 
-      if ((i + 1) % 10 === 0) {
-        console.log(`[DocumentService] Processed ${i + 1}/${chunks.length} chunks`);
-      }
-    }
+    onProgress?.("embedding", { processed: toEmbed.length, total: toEmbed.length });
 
     console.log(`[DocumentService] Successfully processed document ${documentId}`);
-    return chunkRecords;
+    return {
+      chunkRecords,
+      chunkCount: chunks.length,
+      indexChanges,
+      chunkingStrategy,
+      tokenReport,
+    };
   } catch (error) {
     console.error(
       `[DocumentService] Error processing document ${documentId}:`,
@@ -486,19 +1023,35 @@ export async function processDocument(
 /**
  * Extract text from different file types
  */
-export async function extractTextFromFile(filePath: string, contentType: string): Promise<string> {
+export async function extractTextFromFile(
+  filePath: string,
+  contentType: string,
+  options: SpreadsheetExtractionOptions = {}
+): Promise<string> {
   try {
+    // Handle spreadsheets and CSV (rows become "Header: value" blocks)
+    if (isSpreadsheetFile(filePath, contentType)) {
+      return await extractTextFromSpreadsheet(filePath, contentType, options);
+    }
+
+    // Handle HTML pages (boilerplate such as nav/script is dropped)
+    if (contentType.includes("text/html") || /\.html?$/i.test(filePath)) {
+      return await extractTextFromHtml(filePath);
+    }
+
+    // Handle RTF documents
+    if (contentType.includes("rtf") || filePath.endsWith(".rtf")) {
+      return await extractTextFromRtf(filePath);
+    }
+
     // Handle plain text files
     if (contentType.includes("text/plain") || contentType.includes("text/markdown")) {
       return await fs.readFile(filePath, "utf-8");
     }
 
-    // Handle PDF files
+    // Handle PDF files (tables are rebuilt from text positions as Markdown)
     if (contentType.includes("application/pdf") || filePath.endsWith(".pdf")) {
-      const pdfParse = require("pdf-parse");
-      const dataBuffer = await fs.readFile(filePath);
-      const data = await pdfParse(dataBuffer);
-      return data.text;
+      return await extractTextFromPdf(filePath);
     }
 
     // Handle Word documents (.docx)
@@ -508,15 +1061,26 @@ export async function extractTextFromFile(filePath: string, contentType: string)
       ) ||
       filePath.endsWith(".docx")
     ) {
+      // Convert via HTML so tables survive as Markdown; headings stay plain lines
+      // so the semantic section patterns match them as before
       const mammoth = require("mammoth");
-      const result = await mammoth.extractRawText({ path: filePath });
-      return result.value;
+      const result = await mammoth.convertToHtml({ path: filePath });
+      return htmlToText(result.value, { markHeadings: false });
+    }
+
+    // Handle OpenDocument text (.odt)
+    if (
+      contentType.includes("application/vnd.oasis.opendocument.text") ||
+      filePath.endsWith(".odt")
+    ) {
+      return await extractTextFromOdt(filePath);
     }
 
     // Handle older Word documents (.doc)
     if (contentType.includes("application/msword") || filePath.endsWith(".doc")) {
-      // Note: .doc requires additional processing, could use textract or other libraries
-      throw new Error("Legacy .doc format not yet supported. Please convert to .docx");
+      const WordExtractor = require("word-extractor");
+      const extracted = await new WordExtractor().extract(filePath);
+      return extracted.getBody();
     }
 
     throw new Error(`Unsupported file type: ${contentType}`);
@@ -526,7 +1090,7 @@ export async function extractTextFromFile(filePath: string, contentType: string)
   }
 }
 
-interface FileData {
+export interface FileData {
   originalname?: string;
   buffer?: Buffer;
   content?: Buffer | string;
@@ -576,6 +1140,219 @@ export async function saveDocument(
   }
 }
 
+/**
+ * Resolve the content type of an uploaded file, or null if it is not supported
+ */
+export function resolveUploadContentType(filename: string, mimetype?: string): string | null {
+  const supportedTypes = Object.values(SUPPORTED_UPLOAD_TYPES);
+  if (mimetype && supportedTypes.includes(mimetype)) {
+    return mimetype;
+  }
+
+  const extension = path.extname(filename).toLowerCase();
+  return SUPPORTED_UPLOAD_TYPES[extension] || null;
+}
+
+/**
+ * Map processed chunk records to Elasticsearch documents
+ * Only chunk-specific and document-specific data is stored
+ */
+export function buildESChunks(
+  chunkRecords: ChunkRecord[],
+  metadata: DocumentMetadata = {}
+): ESChunk[] {
+  const createdAt = new Date().toISOString();
+
+  return chunkRecords.map((chunk) => ({
+    chunk_id: chunk.chunk_id,
+    document_id: chunk.document_id,
+    title: metadata.title || "Untitled",
+    chunk_text: chunk.chunk_text,
+    chunk_index: chunk.chunk_index,
+    chunk_metadata: chunk.chunk_metadata,
+    chunking_strategy: chunk.chunking_strategy,
+    chunk_type: chunk.chunk_metadata?.property_header ? "property_header" : undefined,
+    document_source: metadata.document_source,
+    rental_terms: extractRentalTerms(chunk.chunk_text) ?? undefined,
+    content_hash: chunk.content_hash,
+    // Indexed hidden; activating the version makes it searchable
+    version: chunk.version,
+    is_active: chunk.version === undefined ? undefined : false,
+    owner_id: metadata.owner_id,
+    property_id: metadata.property_id,
+    kb_scope: metadata.kb_scope,
+    embedding: chunk.embedding,
+    created_at: createdAt,
+  }));
+}
+
+/**
+ * Index a processed version's chunks and make it the active version
+ * A re-processing that changed nothing is dropped instead, keeping the active version
+ * Returns the version that is active afterwards
+ */
+export async function publishDocumentVersion(
+  documentId: number,
+  version: number,
+  esChunks: ESChunk[],
+  indexChanges: IndexChangeCounts
+): Promise<number> {
+  const { bulkIndexChunks } = require("../elasticsearchClient");
+  const {
+    activateDocumentVersion,
+    abandonDocumentVersion,
+    listDocumentVersions,
+  } = require("./documentVersions");
+
+  const { added, updated, removed, unchanged } = indexChanges;
+  if (unchanged > 0 && added + updated + removed === 0) {
+    await abandonDocumentVersion(documentId, version, "unchanged");
+    const versions: DocumentVersion[] = await listDocumentVersions(documentId);
+    const active = versions.find((entry) => entry.status === "active");
+    console.log(
+      `[DocumentService] Document ${documentId} is unchanged, keeping version ${active?.version}`
+    );
+    return active ? active.version : version;
+  }
+
+  const result = await bulkIndexChunks(esChunks);
+  if (result?.errors) {
+    throw new Error(`Bulk indexing version ${version} of document ${documentId} failed`);
+  }
+  return activateDocumentVersion(documentId, version, {
+    chunkCount: esChunks.length,
+    indexChanges,
+  });
+}
+
+/**
+ * Redact, mask or flag personal data in extracted text before it is chunked and indexed
+ */
+function scanDocumentPii(
+  documentId: number,
+  text: string,
+  policy?: PiiPolicy
+): { text: string; report: PiiReport } {
+  const result = scanPii(text, policy);
+  if (result.report.total > 0) {
+    const found = Object.entries(result.report.counts)
+      .filter(([, count]) => count > 0)
+      .map(([type, count]) => `${count} ${type}`)
+      .join(", ");
+    console.log(
+      `[DocumentService] Document ${documentId}: found PII (${found}), policy ${result.report.policy}`
+    );
+  }
+  return result;
+}
+
+/**
+ * Process a file uploaded directly to the service
+ * Stores the file, then extracts, chunks, embeds and indexes it
+ */
+export async function processUploadedDocument(
+  fileData: FileData,
+  contentType: string,
+  metadata: DocumentMetadata = {}
+): Promise<{
+  documentId: number;
+  filename: string;
+  chunkCount: number;
+  textLength: number;
+  chunkingStrategy: string;
+  tokenReport: TokenReport;
+  indexChanges: IndexChangeCounts;
+  // Active version after processing
+  version: number;
+  piiReport: PiiReport;
+}> {
+  const { withNewDocumentVersion } = require("./documentVersions");
+
+  const { documentId, filename, filePath } = await saveDocument(fileData, metadata);
+  await emitWebhookEvent("document.processing", { document_id: documentId, source: "upload" });
+
+  try {
+    const extractedText = await extractTextFromFile(filePath, contentType, {
+      rowsPerChunk: metadata.rows_per_chunk,
+    });
+    console.log(`[DocumentService] Extracted ${extractedText.length} characters of text`);
+    const { text: fullText, report: piiReport } = scanDocumentPii(
+      documentId,
+      extractedText,
+      metadata.pii_policy
+    );
+
+    const { chunkCount, indexChanges, chunkingStrategy, tokenReport, activeVersion } =
+      await withNewDocumentVersion(
+        documentId,
+        { title: metadata.title, source: "upload" },
+        async (version: number) => {
+          const processed = await processDocument(documentId, fullText, {
+            chunk_size: metadata.chunk_size || 500,
+            overlap: metadata.overlap ?? 50,
+            content_format: isSpreadsheetFile(filePath, contentType) ? "rows" : "text",
+            chunking_strategy: metadata.chunking_strategy,
+            title: metadata.title,
+            owner_id: metadata.owner_id,
+            property_id: metadata.property_id,
+            kb_scope: metadata.kb_scope,
+            original_filename: fileData.originalname,
+            version,
+          });
+
+          const esChunks = buildESChunks(processed.chunkRecords, metadata);
+          const activeVersion = await publishDocumentVersion(
+            documentId,
+            version,
+            esChunks,
+            processed.indexChanges
+          );
+          console.log(
+            `[DocumentService] Indexed ${esChunks.length} chunks in Elasticsearch as version ${activeVersion}`
+          );
+          return { ...processed, activeVersion };
+        }
+      );
+    await emitWebhookEvent("document.completed", {
+      document_id: documentId,
+      source: "upload",
+      chunk_count: chunkCount,
+      version: activeVersion,
+      metadata: {
+        title: metadata.title,
+        original_filename: fileData.originalname,
+        text_length: fullText.length,
+        chunking_strategy: chunkingStrategy,
+        index_changes: indexChanges,
+        pii: piiReport,
+      },
+    });
+
+    return {
+      documentId,
+      filename,
+      chunkCount,
+      textLength: fullText.length,
+      chunkingStrategy,
+      tokenReport,
+      indexChanges,
+      version: activeVersion,
+      piiReport,
+    };
+  } catch (error) {
+    console.error(
+      `[DocumentService] Error processing uploaded document ${documentId}:`,
+      (error as Error).message
+    );
+    await emitWebhookEvent("document.failed", {
+      document_id: documentId,
+      source: "upload",
+      error_message: (error as Error).message,
+    });
+    throw error;
+  }
+}
+
 interface DocumentFilters {
   status?: string;
   uploaded_by?: string;
@@ -599,34 +1376,37 @@ export async function getDocuments(_filters: DocumentFilters = {}): Promise<any[
 }
 
 /**
- * Process document from URL and update VAT service
+ * Process document from URL; the outcome is sent to webhook subscribers (VAT included)
  * No database storage - chunks are only indexed in Elasticsearch
+ * Stage transitions are reported through onProgress (used by the ingestion queue)
  */
 export async function processDocumentFromUrl(
   documentId: number,
   uploadUrl: string,
-  vatServiceUrl: string,
-  vatApiKey: string,
-  metadata: DocumentMetadata = {}
+  metadata: DocumentMetadata = {},
+  onProgress?: ProgressCallback
 ): Promise<void> {
-  const axios = require("axios");
-  const { bulkIndexChunks } = require("../elasticsearchClient");
+  const { withNewDocumentVersion } = require("./documentVersions");
 
   try {
     console.log(`[DocumentService] Starting to process document ${documentId} from URL`);
+    await emitWebhookEvent("document.processing", { document_id: documentId, source: "url" });
 
-    // Fetch document from URL
+    // Fetch document from URL (host allowlist, private address blocking, size limit, retries)
+    onProgress?.("fetching");
     console.log(`[DocumentService] Fetching document from ${uploadUrl}`);
-    const fileResponse = await axios.get(uploadUrl, {
-      responseType: "arraybuffer",
-      timeout: 60000, // 60 seconds timeout
-    });
-
-    const fileBuffer = Buffer.from(fileResponse.data);
-
-    // Determine content type
-    const contentType =
-      fileResponse.headers["content-type"] || metadata.content_type || "application/octet-stream";
+    const file = await fetchRemoteFile(uploadUrl);
+    const fileBuffer = file.data;
+
+    // Determine content type from the file bytes; the storage header is only a fallback
+    const declaredType =
+      file.contentType || metadata.content_type || "application/octet-stream";
+    const contentType = detectContentType(fileBuffer, declaredType, metadata.original_filename);
+    if (contentType !== declaredType) {
+      console.log(
+        `[DocumentService] Detected content type ${contentType} (declared: ${declaredType})`
+      );
+    }
 
     // Save file temporarily
     const uploadsDir = path.join(__dirname, "../uploads/documents");
@@ -640,8 +1420,17 @@ export async function processDocumentFromUrl(
     console.log(`[DocumentService] Saved file temporarily at ${filePath}`);
 
     // Extract text from file
-    const fullText = await extractTextFromFile(filePath, contentType);
-    console.log(`[DocumentService] Extracted ${fullText.length} characters of text`);
+    onProgress?.("extracting");
+    const extractedText = await extractTextFromFile(filePath, contentType, {
+      rowsPerChunk: metadata.rows_per_chunk,
+    });
+    console.log(`[DocumentService] Extracted ${extractedText.length} characters of text`);
+    const { text: fullText, report: piiReport } = scanDocumentPii(
+      documentId,
+      extractedText,
+      metadata.pii_policy
+    );
+    const isSpreadsheet = isSpreadsheetFile(filePath, contentType);
     const {
       description,
       price,
@@ -653,35 +1442,17 @@ export async function processDocumentFromUrl(
       title,
     } = metadata;
 
-    // Prepend property information to the document text for better RAG retrieval
-    let enrichedFullText = fullText;
-    const propertyInfoParts = [];
-
-    if (description) {
-      propertyInfoParts.push(`Thông tin phòng trọ: ${description}`);
-    }
-    if (price) {
-      propertyInfoParts.push(`Giá thuê: ${price} VND/tháng`);
-    }
-    if (room_size) {
-      propertyInfoParts.push(`Diện tích: ${room_size} m²`);
-    }
-    if (address_details) {
-      propertyInfoParts.push(`Địa chỉ: ${address_details}`);
-    }
-
-    if (propertyInfoParts.length > 0) {
-      enrichedFullText = propertyInfoParts.join("\n") + "\n\n" + fullText;
-      console.log(`[DocumentService] Enriched document with property information`);
-    }
-
     // Process document (chunk and embed)
-    const docMetadata = {
+    const docMetadata: DocumentMetadata = {
       chunk_size: metadata.chunk_size || 500,
-      overlap: metadata.overlap || 50,
+      overlap: metadata.overlap ?? 50,
+      content_format: isSpreadsheet ? "rows" : "text",
+      chunking_strategy: metadata.chunking_strategy,
+      title,
       owner_id,
       property_id,
-      // Include property metadata for embedding
+      kb_scope: metadata.kb_scope,
+      // Property fields become the enrichment header chunk (see buildPropertyHeaderChunks)
       description,
       price,
       room_size,
@@ -689,49 +1460,68 @@ export async function processDocumentFromUrl(
       original_filename,
     };
 
-    const chunkRecords = await processDocument(documentId, enrichedFullText, docMetadata);
-    console.log(`[DocumentService] Created ${chunkRecords.length} chunks`);
-
-    // Index in Elasticsearch - only chunk-specific and document-specific data
-    // Property metadata (description, price, etc.) should be fetched from VAT service when needed
-    const esChunks = chunkRecords.map((chunk) => ({
-      chunk_id: chunk.chunk_id,
-      document_id: chunk.document_id,
-      title: title || "Untitled",
-      chunk_text: chunk.chunk_text,
-      chunk_index: chunk.chunk_index,
-      owner_id: owner_id,
-      property_id: property_id,
-      embedding: chunk.embedding,
-      created_at: new Date().toISOString(),
-    }));
-
-    await bulkIndexChunks(esChunks);
-    console.log(`[DocumentService] Indexed ${esChunks.length} chunks in Elasticsearch`);
+    const { chunkCount, indexChanges, chunkingStrategy, tokenReport, activeVersion } =
+      await withNewDocumentVersion(
+        documentId,
+        { title, source: uploadUrl },
+        async (version: number) => {
+          const processed = await processDocument(
+            documentId,
+            fullText,
+            { ...docMetadata, version },
+            onProgress
+          );
+          console.log(`[DocumentService] Created ${processed.chunkCount} chunks`);
+
+          // Index in Elasticsearch - only chunk-specific and document-specific data
+          // Property metadata (description, price, etc.) should be fetched from VAT service
+          // when needed
+          const esChunks = buildESChunks(processed.chunkRecords, {
+            title,
+            owner_id,
+            property_id,
+            kb_scope: metadata.kb_scope,
+          });
+
+          // The new version is indexed next to the active one, then replaces it by flipping
+          // is_active (see setActiveDocumentVersion)
+          onProgress?.("indexing", { processed: 0, total: esChunks.length });
+          const activeVersion = await publishDocumentVersion(
+            documentId,
+            version,
+            esChunks,
+            processed.indexChanges
+          );
+          onProgress?.("indexing", { processed: esChunks.length, total: esChunks.length });
+          console.log(
+            `[DocumentService] Indexed ${esChunks.length} chunks in Elasticsearch as version ${activeVersion}`
+          );
+          return { ...processed, activeVersion };
+        }
+      );
 
-    // Update VAT service: mark as completed
-    await axios.patch(
-      `${vatServiceUrl}/api/v1/documents/${documentId}`,
-      {
-        status: "completed",
-        processing_completed_at: new Date().toISOString(),
-        chunk_count: chunkRecords.length,
-        metadata: {
-          ...metadata,
-          rag_document_id: documentId,
-          text_length: fullText.length,
-          chunk_count: chunkRecords.length,
-        },
+    // Notify subscribers: the VAT service marks the document completed
+    onProgress?.("notifying");
+    await emitWebhookEvent("document.completed", {
+      document_id: documentId,
+      source: "url",
+      chunk_count: chunkCount,
+      version: activeVersion,
+      metadata: {
+        ...metadata,
+        rag_document_id: documentId,
+        text_length: fullText.length,
+        chunk_count: chunkCount,
+        chunking_strategy: chunkingStrategy,
+        token_report: tokenReport,
+        index_changes: indexChanges,
+        rag_version: activeVersion,
+        pii: piiReport,
       },
-      {
-        headers: {
-          "x-api-key": vatApiKey,
-        },
-      }
-    );
+    });
 
     console.log(
-      `[DocumentService] Successfully processed document ${documentId}, created ${chunkRecords.length} chunks`
+      `[DocumentService] Successfully processed document ${documentId}, created ${chunkCount} chunks`
     );
   } catch (error) {
     console.error(
@@ -739,27 +1529,11 @@ export async function processDocumentFromUrl(
       (error as Error).message
     );
 
-    // Update VAT service: mark as failed
-    try {
-      await axios.patch(
-        `${vatServiceUrl}/api/v1/documents/${documentId}`,
-        {
-          status: "failed",
-          processing_completed_at: new Date().toISOString(),
-          error_message: (error as Error).message,
-        },
-        {
-          headers: {
-            "x-api-key": vatApiKey,
-          },
-        }
-      );
-    } catch (updateError) {
-      console.error(
-        `[DocumentService] Failed to update VAT service for document ${documentId}:`,
-        (updateError as Error).message
-      );
-    }
+    await emitWebhookEvent("document.failed", {
+      document_id: documentId,
+      source: "url",
+      error_message: (error as Error).message,
+    });
 
     throw error;
   }
@@ -0,0 +1,445 @@
+/**
+ * Document Versions
+ * Every re-processing of a document indexes a new version of its chunks next to the old ones;
+ * versions are tracked in PostgreSQL and only the active version is searchable. Rolling back
+ * re-activates an older version's chunks, which still carry their embeddings.
+ */
+
+import { Pool } from "pg";
+import {
+  deleteDocumentVersionChunks,
+  getDocumentVersionChunks,
+  setActiveDocumentVersion,
+  tagUnversionedChunks,
+} from "../elasticsearchClient";
+import { DocumentVersion, DocumentVersionDiff, IndexChangeCounts } from "../types";
+
+// Versions kept (with their chunks) per document, the active one included
+const VERSION_RETENTION = Math.max(
+  1,
+  parseInt(process.env.DOCUMENT_VERSION_RETENTION || "5", 10)
+);
+
+// Attempts at reserving a version number when another process takes the same one
+const VERSION_ALLOCATION_ATTEMPTS = 3;
+
+// Above this many chunk pairs the diff matches chunks by text instead of by order
+const MAX_ORDERED_DIFF_CELLS = 4_000_000;
+
+let versionPool: Pool | null = null;
+
+/**
+ * Create the versions table
+ */
+export async function initializeDocumentVersions(pool: Pool): Promise<void> {
+  versionPool = pool;
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS rag_document_versions (
+      document_id BIGINT NOT NULL,
+      version INTEGER NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'processing',
+      title TEXT,
+      source TEXT,
+      chunk_count INTEGER,
+      index_changes JSONB,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      activated_at TIMESTAMPTZ,
+      PRIMARY KEY (document_id, version)
+    )
+  `);
+}
+
+function getVersionPool(): Pool {
+  if (!versionPool) {
+    throw new Error("Document versions are not initialized");
+  }
+  return versionPool;
+}
+
+/**
+ * All versions of a document, newest first
+ */
+export async function listDocumentVersions(documentId: number): Promise<DocumentVersion[]> {
+  const result = await getVersionPool().query(
+    "SELECT * FROM rag_document_versions WHERE document_id = $1 ORDER BY version DESC",
+    [documentId]
+  );
+  return result.rows;
+}
+
+export async function getDocumentVersion(
+  documentId: number,
+  version: number
+): Promise<DocumentVersion | null> {
+  const result = await getVersionPool().query(
+    "SELECT * FROM rag_document_versions WHERE document_id = $1 AND version = $2",
+    [documentId, version]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Run fn holding a document's session-level advisory lock, so versions of one document are
+ * reserved and activated one at a time across workers and instances
+ * Only short steps run under it, never a whole processing run: the connection is held
+ * (outside any transaction) until fn returns
+ */
+export async function withDocumentLock<T>(documentId: number, fn: () => Promise<T>): Promise<T> {
+  const client = await getVersionPool().connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1::bigint)", [documentId]);
+  } catch (error) {
+    client.release();
+    throw error;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    // A connection that can't unlock is closed instead, which releases the lock
+    await client.query("SELECT pg_advisory_unlock($1::bigint)", [documentId]).then(
+      () => client.release(),
+      (error: Error) => client.release(error)
+    );
+  }
+}
+
+/**
+ * Process a document as a new version: reserves the next version number (a "processing"
+ * row) and calls run with it; the version is dropped as failed if run throws
+ * Jobs for the same document may run side by side: activation skips a version once a newer
+ * one has been activated (see activateDocumentVersion)
+ */
+export async function withNewDocumentVersion<T>(
+  documentId: number,
+  info: { title?: string; source?: string },
+  run: (version: number) => Promise<T>
+): Promise<T> {
+  const version = await withDocumentLock(documentId, () =>
+    beginDocumentVersion(documentId, info)
+  );
+  try {
+    return await run(version);
+  } catch (error) {
+    await abandonDocumentVersion(documentId, version, "failed").catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Reserve the next version number for a document about to be (re-)processed
+ * Chunks indexed before versioning existed are first registered as version 1
+ * Called holding the document lock
+ */
+async function beginDocumentVersion(
+  documentId: number,
+  info: { title?: string; source?: string } = {}
+): Promise<number> {
+  const pool = getVersionPool();
+
+  const existing = await pool.query(
+    "SELECT COUNT(*)::int AS count FROM rag_document_versions WHERE document_id = $1",
+    [documentId]
+  );
+  if (existing.rows[0].count === 0) {
+    const legacyChunks = await tagUnversionedChunks(documentId, 1);
+    if (legacyChunks > 0) {
+      await pool.query(
+        `INSERT INTO rag_document_versions
+           (document_id, version, status, title, source, chunk_count, activated_at)
+         VALUES ($1, 1, 'active', $2, 'pre-versioning', $3, NOW())
+         ON CONFLICT (document_id, version) DO NOTHING`,
+        [documentId, info.title || null, legacyChunks]
+      );
+      console.log(
+        `[DocumentVersions] Registered ${legacyChunks} existing chunks of document ${documentId} as version 1`
+      );
+    }
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await pool.query(
+        `INSERT INTO rag_document_versions (document_id, version, status, title, source)
+         SELECT $1, COALESCE(MAX(version), 0) + 1, 'processing', $2, $3
+         FROM rag_document_versions WHERE document_id = $1
+         RETURNING version`,
+        [documentId, info.title || null, info.source || null]
+      );
+      return result.rows[0].version;
+    } catch (error) {
+      // Unique violation: a process not holding the lock took the same number
+      if ((error as any).code !== "23505" || attempt >= VERSION_ALLOCATION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Make a newly processed version the searchable one
+ * A version finishing after a newer one was activated is dropped as "superseded" instead,
+ * so jobs finishing out of order never bring back older content
+ * Returns the version that is active afterwards
+ */
+export async function activateDocumentVersion(
+  documentId: number,
+  version: number,
+  details: { chunkCount?: number; indexChanges?: IndexChangeCounts } = {}
+): Promise<number> {
+  return withDocumentLock(documentId, async () => {
+    const newer = await getVersionPool().query(
+      `SELECT version FROM rag_document_versions
+       WHERE document_id = $1 AND version > $2 AND activated_at IS NOT NULL
+       ORDER BY version DESC LIMIT 1`,
+      [documentId, version]
+    );
+    if (newer.rows[0]) {
+      await abandonDocumentVersion(documentId, version, "superseded");
+      console.log(
+        `[DocumentVersions] Document ${documentId} version ${version} is superseded by ` +
+          `version ${newer.rows[0].version}`
+      );
+      const active = await getVersionPool().query(
+        "SELECT version FROM rag_document_versions WHERE document_id = $1 AND status = 'active'",
+        [documentId]
+      );
+      return active.rows[0]?.version ?? newer.rows[0].version;
+    }
+
+    await switchActiveVersion(documentId, version, details);
+    return version;
+  });
+}
+
+/**
+ * Flip the searchable version and prune versions beyond the retention limit
+ * Called holding the document lock, after indexing a new version and for rollbacks
+ */
+async function switchActiveVersion(
+  documentId: number,
+  version: number,
+  details: { chunkCount?: number; indexChanges?: IndexChangeCounts } = {}
+): Promise<void> {
+  const pool = getVersionPool();
+
+  try {
+    await setActiveDocumentVersion(documentId, version);
+  } catch (error) {
+    // A partial flip can leave no version searchable: put the previous one back
+    const previous = await pool.query(
+      `SELECT version FROM rag_document_versions
+       WHERE document_id = $1 AND status = 'active' AND version <> $2`,
+      [documentId, version]
+    );
+    if (previous.rows[0]) {
+      await setActiveDocumentVersion(documentId, previous.rows[0].version).catch((restoreError) =>
+        console.error(
+          `[DocumentVersions] Error restoring version ${previous.rows[0].version} of document ${documentId}:`,
+          (restoreError as Error).message
+        )
+      );
+    }
+    throw error;
+  }
+
+  await pool.query(
+    `UPDATE rag_document_versions SET status = 'inactive'
+     WHERE document_id = $1 AND status = 'active' AND version <> $2`,
+    [documentId, version]
+  );
+  await pool.query(
+    `UPDATE rag_document_versions
+     SET status = 'active', activated_at = NOW(),
+         chunk_count = COALESCE($3, chunk_count),
+         index_changes = COALESCE($4, index_changes)
+     WHERE document_id = $1 AND version = $2`,
+    [
+      documentId,
+      version,
+      details.chunkCount ?? null,
+      details.indexChanges ? JSON.stringify(details.indexChanges) : null,
+    ]
+  );
+  console.log(`[DocumentVersions] Document ${documentId} version ${version} is active`);
+
+  await pruneDocumentVersions(documentId);
+}
+
+/**
+ * Drop a version that won't be activated, with any chunks already indexed for it
+ * status "unchanged" records a re-processing that produced the active version's chunks again
+ */
+export async function abandonDocumentVersion(
+  documentId: number,
+  version: number,
+  status: "failed" | "unchanged" | "superseded"
+): Promise<void> {
+  await deleteDocumentVersionChunks(documentId, [version]);
+  await getVersionPool().query(
+    "UPDATE rag_document_versions SET status = $3 WHERE document_id = $1 AND version = $2",
+    [documentId, version, status]
+  );
+}
+
+/**
+ * Delete the chunks of old versions beyond DOCUMENT_VERSION_RETENTION
+ */
+async function pruneDocumentVersions(documentId: number): Promise<void> {
+  const pool = getVersionPool();
+  const stale = await pool.query(
+    `SELECT version FROM rag_document_versions
+     WHERE document_id = $1 AND status = 'inactive'
+     ORDER BY version DESC OFFSET $2`,
+    [documentId, VERSION_RETENTION - 1]
+  );
+  const versions: number[] = stale.rows.map((row) => row.version);
+  if (versions.length === 0) return;
+
+  await deleteDocumentVersionChunks(documentId, versions);
+  await pool.query(
+    `UPDATE rag_document_versions SET status = 'pruned'
+     WHERE document_id = $1 AND version = ANY($2)`,
+    [documentId, versions]
+  );
+  console.log(
+    `[DocumentVersions] Pruned version(s) ${versions.join(", ")} of document ${documentId}`
+  );
+}
+
+/**
+ * Forget all versions of a deleted document (its chunks are deleted separately)
+ */
+export async function deleteDocumentVersions(documentId: number): Promise<void> {
+  await getVersionPool().query("DELETE FROM rag_document_versions WHERE document_id = $1", [
+    documentId,
+  ]);
+}
+
+/**
+ * Switch back to an earlier version without re-embedding
+ */
+export async function rollbackDocumentVersion(
+  documentId: number,
+  version: number
+): Promise<DocumentVersion> {
+  return withDocumentLock(documentId, async () => {
+    const target = await getDocumentVersion(documentId, version);
+
+    if (!target) {
+      throw new Error(`Document ${documentId} has no version ${version}`);
+    }
+    if (target.status !== "active" && target.status !== "inactive") {
+      throw new Error(`Version ${version} of document ${documentId} is ${target.status}`);
+    }
+
+    if (target.status === "inactive") {
+      await switchActiveVersion(documentId, version);
+    }
+    return (await getDocumentVersion(documentId, version))!;
+  });
+}
+
+/**
+ * Longest common subsequence of two text lists, as index pairs
+ */
+function matchInOrder(from: string[], to: string[]): [number, number][] {
+  const width = to.length + 1;
+  const lengths = new Uint32Array((from.length + 1) * width);
+
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        from[i] === to[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Match texts regardless of order (for documents too large for matchInOrder)
+ */
+function matchByText(from: string[], to: string[]): [number, number][] {
+  const available = new Map<string, number[]>();
+  from.forEach((text, i) => available.set(text, [...(available.get(text) || []), i]));
+
+  const pairs: [number, number][] = [];
+  to.forEach((text, j) => {
+    const i = available.get(text)?.shift();
+    if (i !== undefined) pairs.push([i, j]);
+  });
+  return pairs;
+}
+
+/**
+ * Chunks added and removed between two versions (texts compared exactly)
+ * Both versions must still be indexed (active or inactive)
+ */
+export async function diffDocumentVersions(
+  documentId: number,
+  fromVersion: number,
+  toVersion: number
+): Promise<DocumentVersionDiff> {
+  const [fromChunks, toChunks] = await Promise.all([
+    getDocumentVersionChunks(documentId, fromVersion),
+    getDocumentVersionChunks(documentId, toVersion),
+  ]);
+  const fromTexts = fromChunks.map((chunk) => chunk.chunk_text);
+  const toTexts = toChunks.map((chunk) => chunk.chunk_text);
+
+  const pairs =
+    (fromTexts.length + 1) * (toTexts.length + 1) <= MAX_ORDERED_DIFF_CELLS
+      ? matchInOrder(fromTexts, toTexts)
+      : matchByText(fromTexts, toTexts);
+  const matchedFrom = new Set(pairs.map(([i]) => i));
+  const matchedTo = new Set(pairs.map(([, j]) => j));
+
+  const changes: DocumentVersionDiff["changes"] = [
+    ...fromChunks
+      .filter((_chunk, i) => !matchedFrom.has(i))
+      .map((chunk) => ({
+        op: "removed" as const,
+        from_index: chunk.chunk_index,
+        to_index: null,
+        text: chunk.chunk_text,
+      })),
+    ...toChunks
+      .filter((_chunk, j) => !matchedTo.has(j))
+      .map((chunk) => ({
+        op: "added" as const,
+        from_index: null,
+        to_index: chunk.chunk_index,
+        text: chunk.chunk_text,
+      })),
+  ].sort(
+    (a, b) => (a.to_index ?? a.from_index ?? 0) - (b.to_index ?? b.from_index ?? 0)
+  );
+
+  return {
+    document_id: documentId,
+    from_version: fromVersion,
+    to_version: toVersion,
+    summary: {
+      added: toChunks.length - pairs.length,
+      removed: fromChunks.length - pairs.length,
+      unchanged: pairs.length,
+    },
+    changes,
+  };
+}
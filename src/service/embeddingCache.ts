@@ -0,0 +1,161 @@
+/**
+ * Embedding Cache
+ * Embeddings keyed by (model id, hash of the normalized input text), so unchanged chunks and
+ * repeated queries skip the model. Two tiers: an in-memory LRU in front of a Postgres table.
+ * The persistent tier is optional: without initializeEmbeddingCache (one-off commands) only
+ * the LRU is used, and Postgres errors never fail an embedding request.
+ */
+
+import crypto from "crypto";
+import { Pool } from "pg";
+
+const MEMORY_CACHE_SIZE = parseInt(process.env.EMBEDDING_CACHE_SIZE || "5000", 10);
+const PERSISTENT_CACHE_ENABLED = process.env.EMBEDDING_CACHE_PERSISTENT !== "false";
+
+// Map iteration order is insertion order: re-inserting on access keeps it an LRU
+const memoryCache = new Map<string, number[]>();
+
+let cachePool: Pool | null = null;
+
+const stats = {
+  memory_hits: 0,
+  persistent_hits: 0,
+  misses: 0,
+  persistent_errors: 0,
+};
+
+/**
+ * Create the persistent cache table
+ */
+export async function initializeEmbeddingCache(pool: Pool): Promise<void> {
+  if (!PERSISTENT_CACHE_ENABLED) {
+    return;
+  }
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS rag_embedding_cache (
+      model VARCHAR(255) NOT NULL,
+      text_hash CHAR(64) NOT NULL,
+      embedding REAL[] NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (model, text_hash)
+    )
+  `);
+  cachePool = pool;
+}
+
+/**
+ * Hash of the text with Unicode form and whitespace normalized
+ * (NFC matters for Vietnamese: the same word may arrive precomposed or decomposed)
+ */
+export function hashEmbeddingText(text: string): string {
+  const normalized = text.normalize("NFC").replace(/\s+/g, " ").trim();
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+function rememberEmbedding(key: string, embedding: number[]): void {
+  memoryCache.delete(key);
+  memoryCache.set(key, embedding);
+
+  if (memoryCache.size > MEMORY_CACHE_SIZE) {
+    memoryCache.delete(memoryCache.keys().next().value!);
+  }
+}
+
+/**
+ * Cached embeddings for the given texts, null where the cache has none
+ */
+export async function getCachedEmbeddings(
+  model: string,
+  texts: string[]
+): Promise<(number[] | null)[]> {
+  const hashes = texts.map(hashEmbeddingText);
+  const embeddings: (number[] | null)[] = hashes.map((hash) => {
+    const key = `${model}:${hash}`;
+    const embedding = memoryCache.get(key);
+    if (!embedding) return null;
+
+    rememberEmbedding(key, embedding);
+    stats.memory_hits++;
+    return embedding;
+  });
+
+  const missingHashes = [...new Set(hashes.filter((_hash, i) => !embeddings[i]))];
+  if (cachePool && missingHashes.length > 0) {
+    try {
+      const result = await cachePool.query(
+        `SELECT text_hash, embedding FROM rag_embedding_cache
+         WHERE model = $1 AND text_hash = ANY($2)`,
+        [model, missingHashes]
+      );
+      const stored = new Map<string, number[]>(
+        result.rows.map((row) => [row.text_hash, row.embedding])
+      );
+
+      hashes.forEach((hash, i) => {
+        const embedding = !embeddings[i] && stored.get(hash);
+        if (embedding) {
+          embeddings[i] = embedding;
+          rememberEmbedding(`${model}:${hash}`, embedding);
+          stats.persistent_hits++;
+        }
+      });
+    } catch (error) {
+      stats.persistent_errors++;
+      console.error("[EmbeddingCache] Error reading cache:", (error as Error).message);
+    }
+  }
+
+  stats.misses += embeddings.filter((embedding) => !embedding).length;
+  return embeddings;
+}
+
+/**
+ * Store freshly computed embeddings in both tiers
+ */
+export async function cacheEmbeddings(
+  model: string,
+  texts: string[],
+  embeddings: number[][]
+): Promise<void> {
+  const hashes = texts.map(hashEmbeddingText);
+  hashes.forEach((hash, i) => rememberEmbedding(`${model}:${hash}`, embeddings[i]));
+
+  if (!cachePool || texts.length === 0) {
+    return;
+  }
+
+  try {
+    const values: string[] = [];
+    const params: any[] = [model];
+    hashes.forEach((hash, i) => {
+      params.push(hash, embeddings[i]);
+      values.push(`($1, $${params.length - 1}, $${params.length})`);
+    });
+
+    await cachePool.query(
+      `INSERT INTO rag_embedding_cache (model, text_hash, embedding) VALUES ${values.join(", ")}
+       ON CONFLICT (model, text_hash) DO NOTHING`,
+      params
+    );
+  } catch (error) {
+    stats.persistent_errors++;
+    console.error("[EmbeddingCache] Error writing cache:", (error as Error).message);
+  }
+}
+
+/**
+ * Hit/miss counters for monitoring
+ */
+export function getEmbeddingCacheStats() {
+  const hits = stats.memory_hits + stats.persistent_hits;
+  const lookups = hits + stats.misses;
+
+  return {
+    ...stats,
+    hit_rate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 1000 : 0,
+    memory_entries: memoryCache.size,
+    memory_capacity: MEMORY_CACHE_SIZE,
+    persistent: cachePool !== null,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Embedding Worker Pool
+ * Embeddings are computed in worker_threads so ingestion doesn't block chat requests
+ * Tasks wait in a bounded queue; query embeddings are dispatched before ingestion batches
+ */
+
+import path from "path";
+import { Worker } from "worker_threads";
+
+export type EmbeddingPriority = "query" | "ingestion";
+
+const POOL_SIZE = Math.max(1, parseInt(process.env.EMBEDDING_WORKERS || "2", 10));
+const MAX_QUEUE_SIZE = parseInt(process.env.EMBEDDING_QUEUE_LIMIT || "200", 10);
+
+// Under ts-node the worker is the .ts source and needs ts-node's register hook
+const WORKER_SCRIPT = path.join(__dirname, `embeddingWorker${path.extname(__filename)}`);
+const WORKER_EXEC_ARGV = __filename.endsWith(".ts")
+  ? ["-r", "ts-node/register/transpile-only"]
+  : [];
+
+interface EmbeddingTask {
+  id: number;
+  texts: string[];
+  priority: EmbeddingPriority;
+  startedAt?: number;
+  resolve: (embeddings: number[][]) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;
+  task: EmbeddingTask | null;
+}
+
+const workers: PoolWorker[] = [];
+const queues: Record<EmbeddingPriority, EmbeddingTask[]> = { query: [], ingestion: [] };
+
+let poolModel: string | null = null;
+let poolReady: Promise<void> | null = null;
+let poolStartedAt = 0;
+let stopping = false;
+let nextTaskId = 1;
+let completedTasks = 0;
+let failedTasks = 0;
+let busyMs = 0;
+
+/**
+ * Start the worker pool; every worker loads the model before it takes tasks
+ */
+export function startEmbeddingPool(model: string): Promise<void> {
+  if (!poolReady) {
+    poolModel = model;
+    stopping = false;
+    poolStartedAt = Date.now();
+
+    poolReady = Promise.all(Array.from({ length: POOL_SIZE }, () => spawnWorker(model)))
+      .then(() => {
+        console.log(`[EmbeddingPool] ${POOL_SIZE} worker(s) ready with model ${model}`);
+      })
+      .catch(async (error) => {
+        poolReady = null;
+        await stopEmbeddingPool();
+        throw error;
+      });
+  }
+  return poolReady;
+}
+
+/**
+ * Terminate all workers and reject queued tasks (used by one-off commands and tests)
+ */
+export async function stopEmbeddingPool(): Promise<void> {
+  stopping = true;
+  poolReady = null;
+
+  for (const task of [...queues.query, ...queues.ingestion]) {
+    task.reject(new Error("Embedding pool stopped"));
+  }
+  queues.query = [];
+  queues.ingestion = [];
+
+  await Promise.all(workers.map((entry) => entry.worker.terminate()));
+  workers.length = 0;
+}
+
+function spawnWorker(model: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SCRIPT, {
+      workerData: { model },
+      execArgv: WORKER_EXEC_ARGV,
+    });
+    const entry: PoolWorker = { worker, ready: false, task: null };
+    workers.push(entry);
+
+    worker.on("message", (message: any) => {
+      if (message.type === "ready") {
+        entry.ready = true;
+        resolve();
+        dispatch();
+        return;
+      }
+
+      if (message.type === "init_error") {
+        reject(new Error(`Embedding worker failed to load model: ${message.error}`));
+        worker.terminate();
+        return;
+      }
+
+      finishTask(entry, message.error ? new Error(message.error) : null, message.embeddings);
+      dispatch();
+    });
+
+    worker.on("error", (error) => {
+      console.error("[EmbeddingPool] Worker error:", error.message);
+      if (!entry.ready) reject(error);
+    });
+
+    worker.on("exit", (code) => {
+      workers.splice(workers.indexOf(entry), 1);
+      finishTask(entry, new Error(`Embedding worker exited with code ${code}`));
+
+      // Replace workers that crash after startup
+      if (entry.ready && !stopping && poolModel) {
+        console.warn(`[EmbeddingPool] Worker exited with code ${code}, restarting`);
+        spawnWorker(poolModel).catch((error) =>
+          console.error("[EmbeddingPool] Failed to restart worker:", error.message)
+        );
+      }
+    });
+  });
+}
+
+function finishTask(entry: PoolWorker, error: Error | null, embeddings?: number[][]): void {
+  const task = entry.task;
+  if (!task) return;
+
+  entry.task = null;
+  busyMs += Date.now() - (task.startedAt || Date.now());
+
+  if (error) {
+    failedTasks++;
+    task.reject(error);
+  } else {
+    completedTasks++;
+    task.resolve(embeddings || []);
+  }
+}
+
+/**
+ * Hand queued tasks to idle workers, queries first
+ */
+function dispatch(): void {
+  for (const entry of workers) {
+    if (!entry.ready || entry.task) continue;
+
+    const task = queues.query.shift() || queues.ingestion.shift();
+    if (!task) return;
+
+    task.startedAt = Date.now();
+    entry.task = task;
+    entry.worker.postMessage({ id: task.id, texts: task.texts });
+  }
+}
+
+/**
+ * Embed a batch of texts on the pool
+ * Rejects immediately when the queue is full
+ */
+export function embedInPool(texts: string[], priority: EmbeddingPriority): Promise<number[][]> {
+  if (!poolReady) {
+    return Promise.reject(new Error("Embedding pool is not started"));
+  }
+
+  const queued = queues.query.length + queues.ingestion.length;
+  if (queued >= MAX_QUEUE_SIZE) {
+    return Promise.reject(new Error(`Embedding queue is full (${queued} tasks waiting)`));
+  }
+
+  return new Promise((resolve, reject) => {
+    queues[priority].push({ id: nextTaskId++, texts, priority, resolve, reject });
+    dispatch();
+  });
+}
+
+/**
+ * Pool utilisation for /health
+ * utilisation: share of workers busy right now; average_utilisation: since the pool started
+ */
+export function getEmbeddingPoolStats() {
+  const busyWorkers = workers.filter((entry) => entry.task).length;
+  const runningMs = Math.max(Date.now() - poolStartedAt, 1) * Math.max(workers.length, 1);
+
+  return {
+    model: poolModel,
+    workers: workers.length,
+    ready_workers: workers.filter((entry) => entry.ready).length,
+    busy_workers: busyWorkers,
+    utilisation: workers.length > 0 ? busyWorkers / workers.length : 0,
+    average_utilisation: poolStartedAt > 0 ? Math.min(busyMs / runningMs, 1) : 0,
+    queued: {
+      query: queues.query.length,
+      ingestion: queues.ingestion.length,
+    },
+    max_queue: MAX_QUEUE_SIZE,
+    completed_tasks: completedTasks,
+    failed_tasks: failedTasks,
+  };
+}
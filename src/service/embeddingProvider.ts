@@ -0,0 +1,236 @@
+/**
+ * Embedding Providers
+ * Where embeddings come from, selected with EMBEDDING_PROVIDER:
+ * - local:  transformers.js in the worker pool (any Xenova feature-extraction model,
+ *           e.g. Xenova/multilingual-e5-small for Vietnamese content)
+ * - openai: an OpenAI-compatible HTTP /embeddings endpoint
+ * - hash:   deterministic feature hashing, for offline tests (no model download)
+ * The Elasticsearch mapping takes its dense_vector dims from the active provider
+ */
+
+import axios from "axios";
+import crypto from "crypto";
+import { embedInPool, EmbeddingPriority, startEmbeddingPool } from "./embeddingPool";
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  // Vector size; known once initialize() resolves
+  dims: number;
+  // Longest input in tokens (special tokens included); longer input is truncated
+  maxTokens: number;
+  // transformers.js tokenizer used for chunk sizing; null means token counts are estimated
+  tokenizer: any | null;
+  // Prepended to search queries / indexed passages by models trained with them (e5: "query: ")
+  queryPrefix: string;
+  passagePrefix: string;
+  initialize(): Promise<void>;
+  embed(texts: string[], priority: EmbeddingPriority): Promise<number[][]>;
+}
+
+const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || "local";
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL;
+// Optional for local/openai (checked against the model output), size of the hash vectors
+const EMBEDDING_DIMS = process.env.EMBEDDING_DIMS ? parseInt(process.env.EMBEDDING_DIMS, 10) : 0;
+const EMBEDDING_MAX_TOKENS = process.env.EMBEDDING_MAX_TOKENS
+  ? parseInt(process.env.EMBEDDING_MAX_TOKENS, 10)
+  : 0;
+
+const EMBEDDING_API_URL = process.env.EMBEDDING_API_URL || "https://api.openai.com/v1";
+const EMBEDDING_API_KEY = process.env.EMBEDDING_API_KEY;
+const EMBEDDING_API_TIMEOUT_MS = parseInt(process.env.EMBEDDING_API_TIMEOUT_MS || "30000", 10);
+
+let activeProvider: EmbeddingProvider | null = null;
+
+interface ModelProfile {
+  pattern: RegExp;
+  maxTokens: number;
+  queryPrefix: string;
+  passagePrefix: string;
+}
+
+// Input conventions of the local models we support; other models get the defaults
+const MODEL_PROFILES: ModelProfile[] = [
+  // e5 models expect every input to say what it is
+  {
+    pattern: /(^|\/)(multilingual-)?e5-/i,
+    maxTokens: 512,
+    queryPrefix: "query: ",
+    passagePrefix: "passage: ",
+  },
+  {
+    pattern: /paraphrase-multilingual-MiniLM/i,
+    maxTokens: 128,
+    queryPrefix: "",
+    passagePrefix: "",
+  },
+  // Trained on 256-token inputs although its tokenizer allows 512
+  { pattern: /all-MiniLM-L6-v2/i, maxTokens: 256, queryPrefix: "", passagePrefix: "" },
+];
+
+const DEFAULT_MODEL_PROFILE: Omit<ModelProfile, "pattern"> = {
+  maxTokens: 256,
+  queryPrefix: "",
+  passagePrefix: "",
+};
+
+/**
+ * Input conventions for a model, with EMBEDDING_MAX_TOKENS and the prefix env vars
+ * taking precedence (an empty EMBEDDING_QUERY_PREFIX disables the prefix)
+ */
+export function getModelProfile(model: string): Omit<ModelProfile, "pattern"> {
+  const profile =
+    MODEL_PROFILES.find((entry) => entry.pattern.test(model)) || DEFAULT_MODEL_PROFILE;
+
+  return {
+    maxTokens: EMBEDDING_MAX_TOKENS || profile.maxTokens,
+    queryPrefix: process.env.EMBEDDING_QUERY_PREFIX ?? profile.queryPrefix,
+    passagePrefix: process.env.EMBEDDING_PASSAGE_PREFIX ?? profile.passagePrefix,
+  };
+}
+
+/**
+ * Embed a probe text to learn the vector size, checking it against EMBEDDING_DIMS if set
+ */
+async function probeDims(provider: EmbeddingProvider): Promise<number> {
+  const [probe] = await provider.embed(["dimension probe"], "query");
+
+  if (EMBEDDING_DIMS && EMBEDDING_DIMS !== probe.length) {
+    throw new Error(
+      `EMBEDDING_DIMS is ${EMBEDDING_DIMS} but ${provider.model} returns ${probe.length}-dim vectors`
+    );
+  }
+  return probe.length;
+}
+
+/**
+ * transformers.js model running in the embedding worker pool
+ */
+export function createLocalProvider(model: string): EmbeddingProvider {
+  const provider: EmbeddingProvider = {
+    name: "local",
+    model,
+    dims: 0,
+    tokenizer: null,
+    ...getModelProfile(model),
+
+    async initialize() {
+      const { AutoTokenizer } = await import("@xenova/transformers");
+      provider.tokenizer = await AutoTokenizer.from_pretrained(model);
+      await startEmbeddingPool(model);
+      provider.dims = await probeDims(provider);
+    },
+
+    embed(texts, priority) {
+      return embedInPool(texts, priority);
+    },
+  };
+  return provider;
+}
+
+/**
+ * OpenAI-compatible embeddings endpoint (OpenAI, Azure-style gateways, vLLM, Ollama, ...)
+ */
+export function createOpenAIProvider(
+  model: string,
+  apiUrl: string,
+  apiKey?: string
+): EmbeddingProvider {
+  const client = axios.create({
+    baseURL: apiUrl.replace(/\/+$/, ""),
+    timeout: EMBEDDING_API_TIMEOUT_MS,
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+  });
+
+  const provider: EmbeddingProvider = {
+    name: "openai",
+    model,
+    dims: 0,
+    maxTokens: EMBEDDING_MAX_TOKENS || 8191,
+    tokenizer: null,
+    queryPrefix: process.env.EMBEDDING_QUERY_PREFIX || "",
+    passagePrefix: process.env.EMBEDDING_PASSAGE_PREFIX || "",
+
+    async initialize() {
+      provider.dims = await probeDims(provider);
+    },
+
+    async embed(texts) {
+      const response = await client.post("/embeddings", { model, input: texts });
+      const items: { index: number; embedding: number[] }[] = response.data.data;
+      return [...items].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    },
+  };
+  return provider;
+}
+
+/**
+ * Hash each word into one of `dims` buckets with a random sign, then L2-normalize
+ * Texts sharing words get similar vectors, so retrieval still behaves sensibly in tests
+ */
+export function hashEmbedding(text: string, dims: number): number[] {
+  const vector: number[] = new Array(dims).fill(0);
+  const words = text.normalize("NFC").toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  for (const word of words) {
+    const digest = crypto.createHash("md5").update(word).digest();
+    vector[digest.readUInt32LE(0) % dims] += digest[4] & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    // Elasticsearch rejects zero vectors with cosine similarity
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * Deterministic fake provider
+ */
+export function createHashProvider(dims: number): EmbeddingProvider {
+  return {
+    name: "hash",
+    model: `hash-${dims}`,
+    dims,
+    maxTokens: EMBEDDING_MAX_TOKENS || 512,
+    tokenizer: null,
+    queryPrefix: "",
+    passagePrefix: "",
+
+    async initialize() {},
+
+    async embed(texts) {
+      return texts.map((text) => hashEmbedding(text, dims));
+    },
+  };
+}
+
+/**
+ * Provider selected by EMBEDDING_PROVIDER (not initialized)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    switch (EMBEDDING_PROVIDER) {
+      case "local":
+        activeProvider = createLocalProvider(EMBEDDING_MODEL || "Xenova/all-MiniLM-L6-v2");
+        break;
+      case "openai":
+        activeProvider = createOpenAIProvider(
+          EMBEDDING_MODEL || "text-embedding-3-small",
+          EMBEDDING_API_URL,
+          EMBEDDING_API_KEY
+        );
+        break;
+      case "hash":
+        activeProvider = createHashProvider(EMBEDDING_DIMS || 384);
+        break;
+      default:
+        throw new Error(
+          `Unknown EMBEDDING_PROVIDER "${EMBEDDING_PROVIDER}" (expected local, openai or hash)`
+        );
+    }
+  }
+  return activeProvider;
+}
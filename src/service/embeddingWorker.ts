@@ -0,0 +1,49 @@
+/**
+ * Embedding Worker
+ * Runs the transformers.js feature-extraction pipeline off the main event loop
+ * Started by the embedding pool with workerData.model set to the model name
+ */
+
+import { parentPort, workerData } from "worker_threads";
+
+interface EmbeddingRequest {
+  id: number;
+  texts: string[];
+}
+
+let pipelinePromise: Promise<any> | null = null;
+
+function loadPipeline(): Promise<any> {
+  if (!pipelinePromise) {
+    pipelinePromise = import("@xenova/transformers").then(({ pipeline }) =>
+      pipeline("feature-extraction", workerData.model)
+    );
+  }
+  return pipelinePromise;
+}
+
+async function embed(texts: string[]): Promise<number[][]> {
+  const model = await loadPipeline();
+  const output = await model(texts, {
+    pooling: "mean",
+    normalize: true,
+  });
+
+  // Output tensor is [batch, dims]
+  const dims = output.dims[output.dims.length - 1];
+  return texts.map((_text, i) => Array.from(output.data.subarray(i * dims, (i + 1) * dims)));
+}
+
+loadPipeline().then(
+  () => parentPort!.postMessage({ type: "ready" }),
+  (error) => parentPort!.postMessage({ type: "init_error", error: (error as Error).message })
+);
+
+parentPort!.on("message", async (request: EmbeddingRequest) => {
+  try {
+    const embeddings = await embed(request.texts);
+    parentPort!.postMessage({ type: "result", id: request.id, embeddings });
+  } catch (error) {
+    parentPort!.postMessage({ type: "result", id: request.id, error: (error as Error).message });
+  }
+});
@@ -0,0 +1,136 @@
+/**
+ * File Format Detection
+ * Identifies document formats from their magic bytes instead of trusting
+ * the content-type reported by storage or the client
+ */
+
+import path from "path";
+
+/**
+ * Supported document types, keyed by extension
+ * Also used as the allowlist for direct uploads
+ */
+export const SUPPORTED_UPLOAD_TYPES: Record<string, string> = {
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".pdf": "application/pdf",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".doc": "application/msword",
+  ".odt": "application/vnd.oasis.opendocument.text",
+  ".rtf": "application/rtf",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".csv": "text/csv",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xls": "application/vnd.ms-excel",
+  ".ods": "application/vnd.oasis.opendocument.spreadsheet",
+};
+
+const OLE2_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+/**
+ * Identify ZIP-based formats (OOXML and OpenDocument) from their entry names
+ * Entry names are stored uncompressed in the local headers and central directory
+ */
+function detectZipFormat(buffer: Buffer): string | null {
+  // OpenDocument stores its mimetype as the first, uncompressed entry
+  const head = buffer.subarray(0, 256).toString("latin1");
+  if (head.includes("mimetypeapplication/vnd.oasis.opendocument.text")) {
+    return SUPPORTED_UPLOAD_TYPES[".odt"];
+  }
+  if (head.includes("mimetypeapplication/vnd.oasis.opendocument.spreadsheet")) {
+    return SUPPORTED_UPLOAD_TYPES[".ods"];
+  }
+
+  if (buffer.includes("word/document.xml")) {
+    return SUPPORTED_UPLOAD_TYPES[".docx"];
+  }
+  if (buffer.includes("xl/workbook.xml")) {
+    return SUPPORTED_UPLOAD_TYPES[".xlsx"];
+  }
+
+  return null;
+}
+
+/**
+ * Identify OLE2 compound files (legacy Office) from their stream names
+ */
+function detectOle2Format(buffer: Buffer): string | null {
+  if (buffer.includes(Buffer.from("WordDocument", "utf16le"))) {
+    return SUPPORTED_UPLOAD_TYPES[".doc"];
+  }
+  if (
+    buffer.includes(Buffer.from("Workbook", "utf16le")) ||
+    buffer.includes(Buffer.from("Book", "utf16le"))
+  ) {
+    return SUPPORTED_UPLOAD_TYPES[".xls"];
+  }
+  return null;
+}
+
+/**
+ * Sniff the first bytes of a text file for HTML markup
+ */
+function looksLikeHtml(head: string): boolean {
+  const start = head.trimStart().toLowerCase();
+  return (
+    start.startsWith("<!doctype html") ||
+    start.startsWith("<html") ||
+    (start.startsWith("<") && (start.includes("<body") || start.includes("<head")))
+  );
+}
+
+/**
+ * Detect the content type of a file from its bytes
+ * Falls back to the file extension and then the declared type when the bytes are not conclusive
+ * (plain text, Markdown and CSV have no signature)
+ */
+export function detectContentType(
+  buffer: Buffer,
+  declaredType?: string,
+  filename?: string
+): string {
+  if (buffer.subarray(0, 5).toString("latin1") === "%PDF-") {
+    return SUPPORTED_UPLOAD_TYPES[".pdf"];
+  }
+
+  if (buffer.subarray(0, 4).equals(ZIP_SIGNATURE)) {
+    const zipType = detectZipFormat(buffer);
+    if (zipType) return zipType;
+  }
+
+  if (buffer.subarray(0, 8).equals(OLE2_SIGNATURE)) {
+    const oleType = detectOle2Format(buffer);
+    if (oleType) return oleType;
+  }
+
+  const textStart = buffer.subarray(0, 3).equals(UTF8_BOM) ? 3 : 0;
+  const head = buffer.subarray(textStart, textStart + 1024).toString("utf-8");
+
+  if (head.startsWith("{\\rtf")) {
+    return SUPPORTED_UPLOAD_TYPES[".rtf"];
+  }
+
+  if (looksLikeHtml(head)) {
+    return SUPPORTED_UPLOAD_TYPES[".html"];
+  }
+
+  const extension = filename ? path.extname(filename).toLowerCase() : "";
+  if (SUPPORTED_UPLOAD_TYPES[extension]) {
+    return SUPPORTED_UPLOAD_TYPES[extension];
+  }
+
+  const baseDeclaredType = declaredType?.split(";")[0].trim();
+  if (baseDeclaredType && baseDeclaredType !== "application/octet-stream") {
+    return baseDeclaredType;
+  }
+
+  // No signature and no usable hints: treat NUL-free content as plain text
+  if (!buffer.subarray(0, 8192).includes(0)) {
+    return SUPPORTED_UPLOAD_TYPES[".txt"];
+  }
+
+  return baseDeclaredType || "application/octet-stream";
+}
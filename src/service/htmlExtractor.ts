@@ -0,0 +1,167 @@
+/**
+ * HTML Extraction Service
+ * Converts HTML pages into plain text with Markdown-style headings, lists and tables
+ * Navigation, scripts and other page boilerplate are dropped
+ */
+
+import fs from "fs-extra";
+import * as cheerio from "cheerio";
+import { formatMarkdownTable } from "./markdownTable";
+
+type CheerioRoot = ReturnType<typeof cheerio.load>;
+
+export interface HtmlToTextOptions {
+  // Prefix headings with "##"; disable to keep headings as plain lines (e.g. converted .docx)
+  markHeadings?: boolean;
+}
+
+const BOILERPLATE_SELECTORS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "svg",
+  "canvas",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "[role=navigation]",
+  "[role=banner]",
+  "[role=contentinfo]",
+  "[aria-hidden=true]",
+].join(", ");
+
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "section",
+  "article",
+  "main",
+  "blockquote",
+  "pre",
+  "ul",
+  "ol",
+  "dl",
+  "dt",
+  "dd",
+  "address",
+  "figure",
+  "figcaption",
+  "hr",
+]);
+
+function inlineText($: CheerioRoot, node: any): string {
+  return $(node).text().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Render a DOM node into text parts
+ * Headings become "## Title" (at least two #, which the semantic chunker recognises as a header)
+ */
+function renderNode(
+  $: CheerioRoot,
+  node: any,
+  parts: string[],
+  options: HtmlToTextOptions
+): void {
+  if (node.type === "text") {
+    parts.push(node.data.replace(/\s+/g, " "));
+    return;
+  }
+
+  if (node.type !== "tag") {
+    return;
+  }
+
+  const tag = node.name.toLowerCase();
+
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    const text = inlineText($, node);
+    if (text) {
+      const level = Math.max(2, parseInt(heading[1], 10));
+      const marker = options.markHeadings === false ? "" : `${"#".repeat(level)} `;
+      parts.push(`\n\n${marker}${text}\n\n`);
+    }
+    return;
+  }
+
+  if (tag === "br") {
+    parts.push("\n");
+    return;
+  }
+
+  if (tag === "li") {
+    parts.push("\n- ");
+    for (const child of node.children || []) {
+      renderNode($, child, parts, options);
+    }
+    return;
+  }
+
+  if (tag === "table") {
+    const rows = $(node)
+      .find("tr")
+      .map((_i, row) => [
+        $(row)
+          .children("td, th")
+          .map((_j, cell) => inlineText($, cell))
+          .get(),
+      ])
+      .get()
+      .filter((cells: string[]) => cells.some((cell) => cell));
+
+    if (rows.length > 0) {
+      parts.push(`\n\n${formatMarkdownTable(rows)}\n\n`);
+    }
+    return;
+  }
+
+  const isBlock = BLOCK_TAGS.has(tag);
+  if (isBlock) parts.push("\n\n");
+  for (const child of node.children || []) {
+    renderNode($, child, parts, options);
+  }
+  if (isBlock) parts.push("\n\n");
+}
+
+/**
+ * Render a loaded document, preferring the main content region when the page marks one
+ */
+function renderDocument($: CheerioRoot, options: HtmlToTextOptions = {}): string {
+  $(BOILERPLATE_SELECTORS).remove();
+
+  const main = $("main, article, [role=main]").first();
+  const root = main.length > 0 ? main : $("body");
+  const nodes = root.length > 0 ? root.contents() : $.root().contents();
+
+  const parts: string[] = [];
+  nodes.each((_i, node) => renderNode($, node, parts, options));
+
+  return parts
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Convert an HTML string to text
+ */
+export function htmlToText(html: string, options: HtmlToTextOptions = {}): string {
+  return renderDocument(cheerio.load(html), options);
+}
+
+/**
+ * Extract text from an HTML file (charset is sniffed from the bytes and meta tags)
+ */
+export async function extractTextFromHtml(filePath: string): Promise<string> {
+  const buffer = await fs.readFile(filePath);
+  return renderDocument(cheerio.loadBuffer(buffer));
+}
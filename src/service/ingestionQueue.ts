@@ -0,0 +1,240 @@
+/**
+ * Ingestion Job Queue
+ * Runs document processing in the background on a bounded worker pool
+ * Jobs are persisted in PostgreSQL so their status survives restarts
+ */
+
+import { randomUUID } from "crypto";
+import { Pool } from "pg";
+import { processDocumentFromUrl } from "./documentService";
+import { DocumentMetadata, IngestionJob, IngestionProgress, IngestionStage } from "../types";
+
+// Concurrency control - limit simultaneous ingestion jobs to keep chat responsive
+const MAX_CONCURRENT_JOBS = parseInt(process.env.RAG_INGESTION_CONCURRENCY || "2", 10);
+let activeJobs = 0;
+const pendingJobs: string[] = [];
+
+// Running jobs touch updated_at this often; one not touched for STALE_JOB_SECONDS was cut off
+// by its process stopping (other instances' jobs stay fresh)
+const JOB_HEARTBEAT_MS = 30000;
+const STALE_JOB_SECONDS = 120;
+
+let jobPool: Pool | null = null;
+
+export interface ProcessUrlJobPayload {
+  document_id: number;
+  upload_url: string;
+  metadata?: DocumentMetadata;
+}
+
+/**
+ * Create the jobs table (if missing); interrupted jobs are resumed by resumeInterruptedJobs
+ */
+export async function initializeIngestionQueue(pool: Pool): Promise<void> {
+  jobPool = pool;
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS rag_ingestion_jobs (
+      id UUID PRIMARY KEY,
+      document_id BIGINT NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'queued',
+      stage VARCHAR(20) NOT NULL DEFAULT 'queued',
+      progress_processed INTEGER NOT NULL DEFAULT 0,
+      progress_total INTEGER NOT NULL DEFAULT 0,
+      error_message TEXT,
+      payload JSONB NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      started_at TIMESTAMPTZ,
+      completed_at TIMESTAMPTZ,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pool.query(
+    "CREATE INDEX IF NOT EXISTS idx_rag_ingestion_jobs_document_id ON rag_ingestion_jobs (document_id)"
+  );
+
+  console.log(`[IngestionQueue] Initialized with concurrency ${MAX_CONCURRENT_JOBS}`);
+}
+
+/**
+ * Restart jobs left queued, or running without a heartbeat, by a stopped process
+ * Called once the Elasticsearch index exists, so resumed jobs don't index into an index
+ * Elasticsearch would create with dynamic mappings
+ * A queued job also waiting in another instance's queue runs once: starting it is a claim
+ */
+export async function resumeInterruptedJobs(): Promise<void> {
+  const interrupted = await getJobPool().query(
+    `UPDATE rag_ingestion_jobs
+     SET status = 'queued', stage = 'queued', progress_processed = 0, progress_total = 0,
+         updated_at = NOW()
+     WHERE status = 'queued'
+        OR (status = 'running' AND updated_at < NOW() - make_interval(secs => $1))
+     RETURNING id`,
+    [STALE_JOB_SECONDS]
+  );
+
+  if (interrupted.rows.length > 0) {
+    console.log(`[IngestionQueue] Resuming ${interrupted.rows.length} interrupted job(s)`);
+    for (const row of interrupted.rows) {
+      pendingJobs.push(row.id);
+    }
+    drainQueue();
+  }
+}
+
+function getJobPool(): Pool {
+  if (!jobPool) {
+    throw new Error("Ingestion queue is not initialized");
+  }
+  return jobPool;
+}
+
+/**
+ * Persist a new process-url job and schedule it
+ */
+export async function enqueueProcessUrlJob(payload: ProcessUrlJobPayload): Promise<IngestionJob> {
+  const pool = getJobPool();
+  const jobId = randomUUID();
+
+  const result = await pool.query(
+    `INSERT INTO rag_ingestion_jobs (id, document_id, payload)
+     VALUES ($1, $2, $3)
+     RETURNING *`,
+    [jobId, payload.document_id, JSON.stringify(payload)]
+  );
+
+  pendingJobs.push(jobId);
+  console.log(
+    `[IngestionQueue] Enqueued job ${jobId} for document ${payload.document_id} (${pendingJobs.length} pending)`
+  );
+  drainQueue();
+
+  return result.rows[0];
+}
+
+/**
+ * Get a job by id
+ */
+export async function getJob(jobId: string): Promise<IngestionJob | null> {
+  const pool = getJobPool();
+  const result = await pool.query("SELECT * FROM rag_ingestion_jobs WHERE id = $1", [jobId]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Start as many pending jobs as the worker pool allows
+ */
+function drainQueue(): void {
+  while (activeJobs < MAX_CONCURRENT_JOBS && pendingJobs.length > 0) {
+    const jobId = pendingJobs.shift()!;
+    activeJobs++;
+
+    runJob(jobId)
+      .catch((error) => {
+        console.error(`[IngestionQueue] Job ${jobId} crashed:`, (error as Error).message);
+      })
+      .finally(() => {
+        activeJobs--;
+        drainQueue();
+      });
+  }
+}
+
+async function updateJobStage(
+  jobId: string,
+  stage: IngestionStage,
+  progress: IngestionProgress = {}
+): Promise<void> {
+  const pool = getJobPool();
+  await pool.query(
+    `UPDATE rag_ingestion_jobs
+     SET stage = $2,
+         progress_processed = COALESCE($3, progress_processed),
+         progress_total = COALESCE($4, progress_total),
+         updated_at = NOW()
+     WHERE id = $1`,
+    [jobId, stage, progress.processed ?? null, progress.total ?? null]
+  );
+}
+
+/**
+ * Execute a single job, recording stage transitions as it goes
+ */
+async function runJob(jobId: string): Promise<void> {
+  const pool = getJobPool();
+
+  const started = await pool.query(
+    `UPDATE rag_ingestion_jobs
+     SET status = 'running', started_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status = 'queued'
+     RETURNING payload`,
+    [jobId]
+  );
+
+  if (started.rows.length === 0) {
+    console.warn(`[IngestionQueue] Job ${jobId} is no longer queued, skipping`);
+    return;
+  }
+
+  const payload: ProcessUrlJobPayload = started.rows[0].payload;
+  console.log(`[IngestionQueue] Running job ${jobId} for document ${payload.document_id}`);
+
+  // Stages like fetching or extracting can outlast STALE_JOB_SECONDS without progress writes
+  const heartbeat = setInterval(() => {
+    pool
+      .query(
+        "UPDATE rag_ingestion_jobs SET updated_at = NOW() WHERE id = $1 AND status = 'running'",
+        [jobId]
+      )
+      .catch((error) => {
+        console.error(
+          `[IngestionQueue] Failed to record heartbeat for job ${jobId}:`,
+          (error as Error).message
+        );
+      });
+  }, JOB_HEARTBEAT_MS);
+  heartbeat.unref();
+
+  // Progress writes are chained so they land in order without blocking processing
+  let progressWrites: Promise<void> = Promise.resolve();
+  const onProgress = (stage: IngestionStage, progress?: IngestionProgress) => {
+    progressWrites = progressWrites
+      .then(() => updateJobStage(jobId, stage, progress))
+      .catch((error) => {
+        console.error(
+          `[IngestionQueue] Failed to record progress for job ${jobId}:`,
+          (error as Error).message
+        );
+      });
+  };
+
+  try {
+    await processDocumentFromUrl(
+      payload.document_id,
+      payload.upload_url,
+      payload.metadata || {},
+      onProgress
+    );
+
+    await progressWrites;
+    await pool.query(
+      `UPDATE rag_ingestion_jobs
+       SET status = 'completed', stage = 'completed', completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [jobId]
+    );
+    console.log(`[IngestionQueue] Job ${jobId} completed`);
+  } catch (error) {
+    // Keep the stage that failed so callers can tell where processing stopped
+    await progressWrites;
+    await pool.query(
+      `UPDATE rag_ingestion_jobs
+       SET status = 'failed', error_message = $2, completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [jobId, (error as Error).message]
+    );
+    console.error(`[IngestionQueue] Job ${jobId} failed:`, (error as Error).message);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
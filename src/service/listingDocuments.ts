@@ -0,0 +1,203 @@
+/**
+ * Listing Documents
+ * Many properties have no uploaded documents, so the knowledge base has nothing to answer
+ * from. For every property a Vietnamese description document is rendered from its backend
+ * listing and processed like any other document, tagged document_source "listing" so
+ * retrieval ranks it below owner-uploaded documents.
+ *
+ * A listing document's id is the negated property id: it never collides with VAT document
+ * ids or upload timestamps, and needs no lookup. The rendered text's hash is kept in
+ * PostgreSQL so unchanged listings aren't re-processed on every sync.
+ */
+
+import crypto from "crypto";
+import { Pool } from "pg";
+import { deleteDocumentChunks } from "../elasticsearchClient";
+import { DocumentMetadata, ListingProperty, ListingSyncStatus } from "../types";
+import { buildESChunks, processDocument, publishDocumentVersion } from "./documentService";
+import { deleteDocumentVersions, withNewDocumentVersion } from "./documentVersions";
+
+const LISTING_DOCUMENTS_ENABLED = process.env.LISTING_DOCUMENTS_ENABLED !== "false";
+
+let listingPool: Pool | null = null;
+
+/**
+ * Create the listing documents table
+ */
+export async function initializeListingDocuments(pool: Pool): Promise<void> {
+  listingPool = pool;
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS rag_listing_documents (
+      property_id BIGINT PRIMARY KEY,
+      document_id BIGINT NOT NULL,
+      content_hash CHAR(64) NOT NULL,
+      version INTEGER,
+      synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+function getListingPool(): Pool {
+  if (!listingPool) {
+    throw new Error("Listing documents are not initialized");
+  }
+  return listingPool;
+}
+
+export function getListingDocumentId(propertyId: number): number {
+  return -propertyId;
+}
+
+/**
+ * Properties that currently have a listing document
+ */
+export async function listListingPropertyIds(): Promise<number[]> {
+  const result = await getListingPool().query("SELECT property_id FROM rag_listing_documents");
+  return result.rows.map((row) => Number(row.property_id));
+}
+
+function formatNumber(value: number | string): string {
+  const number = Number(value);
+  return isNaN(number) ? String(value) : number.toLocaleString("vi-VN");
+}
+
+/**
+ * Markdown description of a listing, one "###" section per topic (empty sections are left out)
+ */
+export function renderListingDocument(property: ListingProperty): string {
+  const sections: [string, (string | null)[]][] = [
+    [
+      "Thông tin cơ bản",
+      [
+        `Mã phòng: ${property.id}`,
+        property.isRoomAvailable === undefined
+          ? null
+          : `Tình trạng: ${property.isRoomAvailable ? "Còn trống" : "Đã cho thuê"}`,
+        property.availableFrom ? `Ngày có thể vào ở: ${property.availableFrom}` : null,
+        property.ownerName ? `Chủ nhà: ${property.ownerName}` : null,
+      ],
+    ],
+    [
+      "Giá thuê",
+      [property.price ? `Giá thuê: ${formatNumber(property.price)} VND/tháng` : null],
+    ],
+    [
+      "Diện tích và số phòng",
+      [
+        property.roomSize ? `Diện tích: ${property.roomSize} m²` : null,
+        property.numBedrooms ? `Số phòng ngủ: ${property.numBedrooms}` : null,
+        property.numBathrooms ? `Số phòng tắm: ${property.numBathrooms}` : null,
+      ],
+    ],
+    [
+      "Địa chỉ",
+      [
+        [property.addressDetails, property.street, property.ward, property.district, property.city]
+          .filter(Boolean)
+          .join(", ") || null,
+        property.location ? `Khu vực: ${property.location}` : null,
+      ],
+    ],
+    ["Mô tả", [property.description?.trim() || null]],
+  ];
+
+  const body = sections
+    .map(([title, lines]) => [title, lines.filter((line): line is string => !!line)] as const)
+    .filter(([, lines]) => lines.length > 0)
+    .map(([title, lines]) => `### ${title}\n${lines.join("\n")}`)
+    .join("\n\n");
+
+  return `# ${property.title || `Phòng ${property.id}`}\n\n${body}`;
+}
+
+/**
+ * Remove a property's listing document (the listing is gone from the backend)
+ */
+async function removeListingDocument(propertyId: number): Promise<ListingSyncStatus> {
+  const pool = getListingPool();
+  const existing = await pool.query("SELECT 1 FROM rag_listing_documents WHERE property_id = $1", [
+    propertyId,
+  ]);
+  if (existing.rows.length === 0) {
+    return "skipped";
+  }
+
+  const documentId = getListingDocumentId(propertyId);
+  await deleteDocumentChunks(documentId);
+  await deleteDocumentVersions(documentId);
+  await pool.query("DELETE FROM rag_listing_documents WHERE property_id = $1", [propertyId]);
+  console.log(`[ListingDocuments] Removed listing document of property ${propertyId}`);
+  return "removed";
+}
+
+/**
+ * Create or refresh a property's listing document from its backend data
+ * Pass null for a property the backend no longer has
+ */
+export async function syncListingDocument(
+  propertyId: number,
+  property: ListingProperty | null
+): Promise<ListingSyncStatus> {
+  if (!LISTING_DOCUMENTS_ENABLED) {
+    return "skipped";
+  }
+  if (!property) {
+    return removeListingDocument(propertyId);
+  }
+
+  const pool = getListingPool();
+  const documentId = getListingDocumentId(propertyId);
+  const metadata: DocumentMetadata = {
+    title: property.title || `Phòng ${propertyId}`,
+    owner_id: property.ownerId !== undefined ? String(property.ownerId) : undefined,
+    property_id: propertyId,
+    kb_scope: "property",
+    document_source: "listing",
+  };
+
+  const text = renderListingDocument(property);
+  const contentHash = crypto
+    .createHash("sha256")
+    .update(JSON.stringify([text, metadata]))
+    .digest("hex");
+
+  const existing = await pool.query(
+    "SELECT content_hash FROM rag_listing_documents WHERE property_id = $1",
+    [propertyId]
+  );
+  if (existing.rows[0]?.content_hash === contentHash) {
+    return "unchanged";
+  }
+
+  await withNewDocumentVersion(
+    documentId,
+    { title: metadata.title, source: "listing" },
+    async (version) => {
+      const { chunkRecords, indexChanges } = await processDocument(documentId, text, {
+        ...metadata,
+        chunk_size: 500,
+        chunking_strategy: "markdown-heading",
+        version,
+      });
+      const activeVersion = await publishDocumentVersion(
+        documentId,
+        version,
+        buildESChunks(chunkRecords, metadata),
+        indexChanges
+      );
+
+      await pool.query(
+        `INSERT INTO rag_listing_documents (property_id, document_id, content_hash, version)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (property_id) DO UPDATE
+         SET content_hash = EXCLUDED.content_hash, version = EXCLUDED.version, synced_at = NOW()`,
+        [propertyId, documentId, contentHash, activeVersion]
+      );
+    }
+  );
+
+  const status: ListingSyncStatus = existing.rows.length > 0 ? "updated" : "created";
+  console.log(`[ListingDocuments] Property ${propertyId}: listing document ${status}`);
+  return status;
+}
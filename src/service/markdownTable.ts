@@ -0,0 +1,106 @@
+/**
+ * Markdown Table Helpers
+ * Extractors emit tables as Markdown so fee tables stay readable in chunks;
+ * the chunker uses these helpers to keep tables intact
+ */
+
+const TABLE_LINE_REGEX = /^\s*\|.*\|\s*$/;
+
+/**
+ * Render rows as a Markdown table, using the first row as the header
+ */
+export function formatMarkdownTable(rows: string[][]): string {
+  const columnCount = Math.max(...rows.map((row) => row.length));
+
+  const formatRow = (row: string[]) => {
+    const cells: string[] = [];
+    for (let i = 0; i < columnCount; i++) {
+      const cell = (row[i] || "").replace(/\s+/g, " ").replace(/\|/g, "\\|").trim();
+      cells.push(cell);
+    }
+    return `| ${cells.join(" | ")} |`;
+  };
+
+  const [header, ...body] = rows;
+  const separator = `| ${Array(columnCount).fill("---").join(" | ")} |`;
+
+  return [formatRow(header), separator, ...body.map(formatRow)].join("\n");
+}
+
+/**
+ * Check whether a line is a Markdown table row
+ */
+export function isMarkdownTableLine(line: string): boolean {
+  return TABLE_LINE_REGEX.test(line);
+}
+
+/**
+ * Check whether a block of text is entirely a Markdown table
+ */
+export function isMarkdownTable(block: string): boolean {
+  const lines = block.trim().split("\n");
+  return lines.length >= 2 && lines.every(isMarkdownTableLine);
+}
+
+/**
+ * Split text into blocks, keeping each Markdown table as its own block
+ * Paragraphs are separated by blank lines; table rows are pulled out of mixed paragraphs
+ */
+export function splitTableBlocks(content: string): string[] {
+  const blocks: string[] = [];
+
+  for (const paragraph of content.split(/\n\n+/)) {
+    let current: string[] = [];
+    let currentIsTable = false;
+
+    for (const line of paragraph.split("\n")) {
+      const lineIsTable = isMarkdownTableLine(line);
+      if (current.length > 0 && lineIsTable !== currentIsTable) {
+        blocks.push(current.join("\n"));
+        current = [];
+      }
+      current.push(line);
+      currentIsTable = lineIsTable;
+    }
+
+    if (current.length > 0) {
+      blocks.push(current.join("\n"));
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Split an oversized Markdown table into row groups that fit the token budget
+ * Rows are never split; the header and separator rows are repeated in every part
+ */
+export function splitMarkdownTable(
+  table: string,
+  maxTokens: number,
+  countTokens: (text: string) => number
+): string[] {
+  const lines = table.trim().split("\n");
+  const hasSeparator = lines.length >= 2 && /^\s*\|[\s:|-]+\|\s*$/.test(lines[1]);
+  const headerLines = hasSeparator ? lines.slice(0, 2) : lines.slice(0, 1);
+  const bodyLines = lines.slice(headerLines.length);
+  const header = headerLines.join("\n");
+
+  const parts: string[] = [];
+  let currentRows: string[] = [];
+
+  for (const row of bodyLines) {
+    const candidate = [header, ...currentRows, row].join("\n");
+    if (currentRows.length > 0 && countTokens(candidate) > maxTokens) {
+      parts.push([header, ...currentRows].join("\n"));
+      currentRows = [];
+    }
+    currentRows.push(row);
+  }
+
+  if (currentRows.length > 0 || parts.length === 0) {
+    parts.push([header, ...currentRows].join("\n"));
+  }
+
+  return parts;
+}
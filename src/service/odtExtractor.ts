@@ -0,0 +1,127 @@
+/**
+ * OpenDocument Text Extraction Service
+ * Reads content.xml from .odt archives (Google Docs / LibreOffice exports)
+ */
+
+import fs from "fs-extra";
+import * as cheerio from "cheerio";
+import { formatMarkdownTable } from "./markdownTable";
+
+type CheerioRoot = ReturnType<typeof cheerio.load>;
+
+// Elements whose content is metadata rather than document text
+const SKIPPED_ELEMENTS = new Set([
+  "office:annotation",
+  "text:tracked-changes",
+  "text:sequence-decls",
+  "text:variable-decls",
+  "text:note-citation",
+]);
+
+function inlineText(node: any): string {
+  const parts: string[] = [];
+  renderInline(node, parts);
+  return parts.join("").replace(/[ \t]+/g, " ").trim();
+}
+
+/**
+ * Render paragraph-level content, expanding ODF whitespace elements
+ */
+function renderInline(node: any, parts: string[]): void {
+  if (node.type === "text") {
+    parts.push(node.data);
+    return;
+  }
+
+  if (node.type !== "tag" || SKIPPED_ELEMENTS.has(node.name)) {
+    return;
+  }
+
+  switch (node.name) {
+    case "text:s":
+      parts.push(" ".repeat(parseInt(node.attribs?.["text:c"] || "1", 10)));
+      return;
+    case "text:tab":
+      parts.push("\t");
+      return;
+    case "text:line-break":
+      parts.push("\n");
+      return;
+  }
+
+  for (const child of node.children || []) {
+    renderInline(child, parts);
+  }
+}
+
+/**
+ * Render block-level content: headings, paragraphs, lists and tables
+ */
+function renderBlock($: CheerioRoot, node: any, parts: string[]): void {
+  if (node.type !== "tag" || SKIPPED_ELEMENTS.has(node.name)) {
+    return;
+  }
+
+  switch (node.name) {
+    case "text:h": {
+      const text = inlineText(node);
+      if (text) {
+        const level = Math.max(2, parseInt(node.attribs?.["text:outline-level"] || "2", 10));
+        parts.push(`${"#".repeat(Math.min(level, 6))} ${text}`);
+      }
+      return;
+    }
+    case "text:p": {
+      const text = inlineText(node);
+      if (text) parts.push(text);
+      return;
+    }
+    case "text:list-item": {
+      const itemParts: string[] = [];
+      for (const child of node.children || []) {
+        renderBlock($, child, itemParts);
+      }
+      if (itemParts.length > 0) parts.push(`- ${itemParts.join("\n")}`);
+      return;
+    }
+    case "table:table": {
+      const rows: string[][] = [];
+      $(node)
+        .find("table\\:table-row")
+        .each((_i, row) => {
+          const cells = $(row)
+            .children("table\\:table-cell")
+            .map((_j, cell) => inlineText(cell))
+            .get();
+          if (cells.some((cell) => cell)) rows.push(cells);
+        });
+      if (rows.length > 0) parts.push(formatMarkdownTable(rows));
+      return;
+    }
+  }
+
+  for (const child of node.children || []) {
+    renderBlock($, child, parts);
+  }
+}
+
+/**
+ * Extract text from an .odt file
+ */
+export async function extractTextFromOdt(filePath: string): Promise<string> {
+  const JSZip = require("jszip");
+  const zip = await JSZip.loadAsync(await fs.readFile(filePath));
+
+  const contentFile = zip.file("content.xml");
+  if (!contentFile) {
+    throw new Error("Invalid OpenDocument file: content.xml not found");
+  }
+
+  const $ = cheerio.load(await contentFile.async("string"), { xml: true });
+  const body = $("office\\:text").first();
+
+  const parts: string[] = [];
+  body.children().each((_i, node) => renderBlock($, node, parts));
+
+  return parts.join("\n\n");
+}
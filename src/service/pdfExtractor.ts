@@ -0,0 +1,154 @@
+/**
+ * PDF Extraction Service
+ * Rebuilds text lines from pdf.js text positions and detects tables from column gaps
+ * Detected tables are emitted as Markdown tables instead of run-on text
+ */
+
+import fs from "fs-extra";
+import { formatMarkdownTable } from "./markdownTable";
+
+// A horizontal gap wider than this many font sizes starts a new table cell
+const CELL_GAP_RATIO = 1.5;
+// Items whose baselines differ by less than this many font sizes share a line
+const LINE_TOLERANCE_RATIO = 0.5;
+// Minimum consecutive multi-cell lines to treat as a table
+const MIN_TABLE_ROWS = 2;
+
+interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+interface PdfLine {
+  y: number;
+  items: PdfTextItem[];
+}
+
+/**
+ * Group text items into lines (top to bottom) with items sorted left to right
+ */
+function groupIntoLines(items: PdfTextItem[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+
+  for (const item of items) {
+    const line = lines.find(
+      (candidate) => Math.abs(candidate.y - item.y) < item.fontSize * LINE_TOLERANCE_RATIO
+    );
+    if (line) {
+      line.items.push(item);
+    } else {
+      lines.push({ y: item.y, items: [item] });
+    }
+  }
+
+  // PDF y coordinates grow upwards
+  lines.sort((a, b) => b.y - a.y);
+  for (const line of lines) {
+    line.items.sort((a, b) => a.x - b.x);
+  }
+
+  return lines;
+}
+
+/**
+ * Split a line into cells wherever the gap between items is wide
+ */
+function splitIntoCells(line: PdfLine): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let previous: PdfTextItem | null = null;
+
+  for (const item of line.items) {
+    if (previous) {
+      const gap = item.x - (previous.x + previous.width);
+      if (gap > item.fontSize * CELL_GAP_RATIO) {
+        cells.push(current.trim());
+        current = "";
+      } else if (gap > item.fontSize * 0.1 && !/\s$/.test(current) && !/^\s/.test(item.text)) {
+        current += " ";
+      }
+    }
+    current += item.text;
+    previous = item;
+  }
+
+  cells.push(current.trim());
+  return cells.filter((cell) => cell);
+}
+
+/**
+ * Render one page: runs of multi-cell lines become Markdown tables, everything else plain lines
+ */
+function renderLines(lines: PdfLine[]): string {
+  const blocks: string[] = [];
+  let textLines: string[] = [];
+  let tableRows: string[][] = [];
+
+  const flushTable = () => {
+    if (tableRows.length >= MIN_TABLE_ROWS) {
+      if (textLines.length > 0) {
+        blocks.push(textLines.join("\n"));
+        textLines = [];
+      }
+      blocks.push(formatMarkdownTable(tableRows));
+    } else {
+      textLines.push(...tableRows.map((cells) => cells.join(" ")));
+    }
+    tableRows = [];
+  };
+
+  for (const line of lines) {
+    const cells = splitIntoCells(line);
+    if (cells.length >= 2) {
+      tableRows.push(cells);
+    } else {
+      flushTable();
+      if (cells.length === 1) textLines.push(cells[0]);
+    }
+  }
+
+  flushTable();
+  if (textLines.length > 0) {
+    blocks.push(textLines.join("\n"));
+  }
+
+  return blocks.join("\n\n");
+}
+
+/**
+ * pdf-parse page renderer using item positions instead of raw concatenation
+ */
+async function renderPage(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  const items: PdfTextItem[] = textContent.items
+    .filter((item: any) => item.str && item.str.trim())
+    .map((item: any) => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width || 0,
+      fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10,
+    }));
+
+  return renderLines(groupIntoLines(items));
+}
+
+/**
+ * Extract text from a PDF file with tables preserved as Markdown
+ */
+export async function extractTextFromPdf(filePath: string): Promise<string> {
+  const pdfParse = require("pdf-parse");
+  const dataBuffer = await fs.readFile(filePath);
+
+  // Small files are read into Node's shared buffer pool; the bundled pdf.js ignores
+  // byteOffset, so hand it a standalone copy
+  const data = await pdfParse(new Uint8Array(dataBuffer), { pagerender: renderPage });
+  return data.text.trim();
+}
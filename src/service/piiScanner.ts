@@ -0,0 +1,147 @@
+/**
+ * PII Scanner
+ * Owner documents (rental contracts mostly) carry tenants' personal data, and whatever is
+ * indexed can be quoted to any chat user. Extracted text is scanned before chunking for
+ * Vietnamese ID numbers (CMND 9 / CCCD 12 digits), phone numbers (0xx / +84), bank account
+ * numbers (next to "STK", "số tài khoản", ...) and emails, then redacted, masked or only
+ * reported according to the document's policy.
+ */
+
+import { PiiPolicy, PiiReport, PiiType } from "../types";
+
+export const PII_POLICIES: PiiPolicy[] = ["redact", "mask", "flag"];
+const DEFAULT_POLICY = (process.env.PII_POLICY || "redact") as PiiPolicy;
+
+const PLACEHOLDERS: Record<PiiType, string> = {
+  id_number: "[CCCD/CMND đã ẩn]",
+  phone: "[SĐT đã ẩn]",
+  bank_account: "[STK đã ẩn]",
+  email: "[email đã ẩn]",
+};
+
+interface PiiMatch {
+  type: PiiType;
+  start: number;
+  end: number;
+  value: string;
+}
+
+interface PiiDetector {
+  type: PiiType;
+  pattern: RegExp;
+  // Capture group holding the PII when the pattern also matches its label
+  group?: number;
+  // Rejects a match from its surroundings
+  exclude?: (text: string, match: PiiMatch) => boolean;
+}
+
+// Digits followed by a currency or unit are amounts, not identifiers
+// (digit groups like 3.500.000 never match: the detectors skip digits next to "." or ",")
+const AMOUNT_SUFFIX = /^\s*(?:đ|đồng|vnđ|vnd|k\b|m2|m²|triệu|tr\b)/i;
+
+/**
+ * Detectors in priority order: where matches overlap, the earlier detector wins
+ * (an account number that is also a phone number is reported as an account)
+ */
+const DETECTORS: PiiDetector[] = [
+  {
+    type: "bank_account",
+    pattern:
+      /(?:s[ốo]\s*t[àa]i\s*kho[ảa]n|\bstk|\btk|account\s*(?:no\.?|number)?)\s*(?:ng[âa]n\s*h[àa]ng\s*)?[:.]?\s*((?:\d[\s.-]?){7,18}\d)(?!\d)/gi,
+    group: 1,
+  },
+  {
+    type: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  {
+    // Mobile: 0 + 3/5/7/8/9 + 8 digits; landline: 02x + 8 digits; separators allowed
+    type: "phone",
+    pattern:
+      /(?<!\d|\d[.,])(?:\+84|84|0)[\s.-]?(?:[35789]\d(?:[\s.-]?\d){7}|2\d(?:[\s.-]?\d){8})(?!\d|[.,]\d)/g,
+  },
+  {
+    type: "id_number",
+    pattern: /(?<!\d|\d[.,])(?:\d{12}|\d{9})(?!\d|[.,]\d)/g,
+    exclude: (text, match) => AMOUNT_SUFFIX.test(text.slice(match.end, match.end + 8)),
+  },
+];
+
+export function getDefaultPiiPolicy(): PiiPolicy {
+  return PII_POLICIES.includes(DEFAULT_POLICY) ? DEFAULT_POLICY : "redact";
+}
+
+/**
+ * Find PII in text, non-overlapping and in text order
+ */
+export function detectPii(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+
+  for (const detector of DETECTORS) {
+    for (const found of text.matchAll(detector.pattern)) {
+      const value = detector.group ? found[detector.group] : found[0];
+      const start = found.index! + found[0].lastIndexOf(value);
+      const match: PiiMatch = { type: detector.type, start, end: start + value.length, value };
+
+      const overlaps = matches.some((other) => match.start < other.end && other.start < match.end);
+      if (!overlaps && !detector.exclude?.(text, match)) {
+        matches.push(match);
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Keep the last few characters of a value (the domain of an email), mask the rest
+ */
+function maskValue(match: PiiMatch): string {
+  if (match.type === "email") {
+    const [local, domain] = match.value.split("@");
+    return `${local[0]}${"*".repeat(Math.max(local.length - 1, 1))}@${domain}`;
+  }
+  const visible = match.type === "phone" ? 3 : 4;
+  let digitsSeen = 0;
+  const digitCount = match.value.replace(/\D/g, "").length;
+  // Separators are kept so the masked value reads like the original
+  return match.value.replace(/\d/g, (digit) =>
+    ++digitsSeen > digitCount - visible ? digit : "*"
+  );
+}
+
+/**
+ * Apply a PII policy to extracted text
+ * Returns the text to index and what was found
+ */
+export function scanPii(
+  text: string,
+  policy: PiiPolicy = getDefaultPiiPolicy()
+): { text: string; report: PiiReport } {
+  const matches = detectPii(text);
+  const counts: Record<PiiType, number> = {
+    id_number: 0,
+    phone: 0,
+    bank_account: 0,
+    email: 0,
+  };
+  for (const match of matches) {
+    counts[match.type]++;
+  }
+  const report: PiiReport = { policy, counts, total: matches.length };
+
+  if (policy === "flag" || matches.length === 0) {
+    return { text, report };
+  }
+
+  let result = "";
+  let position = 0;
+  for (const match of matches) {
+    result += text.slice(position, match.start);
+    result += policy === "redact" ? PLACEHOLDERS[match.type] : maskValue(match);
+    position = match.end;
+  }
+  result += text.slice(position);
+
+  return { text: result, report };
+}
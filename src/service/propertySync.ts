@@ -0,0 +1,295 @@
+/**
+ * Property Sync
+ * Documents processed from a URL carry an enrichment header chunk with the property's price,
+ * size, description and address as they were at ingest time. A sync fetches the current
+ * property from the backend and re-embeds only the header chunks whose text changed, in every
+ * kept version so a rollback doesn't bring back old prices; the body chunks are left alone. The property's generated listing document is refreshed too.
+ * Syncs run from the POST /properties/:id/sync webhook and from a periodic reconciler over
+ * every backend property plus those the knowledge base has content for.
+ */
+
+import axios from "axios";
+import {
+  getDocumentHeaderChunks,
+  listHeaderPropertyIds,
+  listPropertyHeaderDocumentIds,
+  replaceChunks,
+} from "../elasticsearchClient";
+import { ESChunk, ListingProperty, PropertyInfo, PropertySyncResult } from "../types";
+import {
+  assignChunkIds,
+  buildPropertyHeaderChunks,
+  generateEmbeddings,
+  hashChunkContent,
+} from "./documentService";
+import { listDocumentVersions, withDocumentLock } from "./documentVersions";
+import { listListingPropertyIds, syncListingDocument } from "./listingDocuments";
+import { extractRentalTerms } from "./rentalTerms";
+
+const RECONCILE_INTERVAL_MINUTES = parseInt(
+  process.env.PROPERTY_SYNC_INTERVAL_MINUTES || "60",
+  10
+);
+
+// Properties requested per page when listing every backend property
+const BACKEND_PAGE_SIZE = 100;
+
+let reconcileTimer: NodeJS.Timeout | null = null;
+let reconciling = false;
+
+function getBackendUrl(): string {
+  if (!process.env.BE_API_URL) {
+    throw new Error("BE_API_URL is not configured");
+  }
+  return process.env.BE_API_URL;
+}
+
+function getBackendHeaders(): Record<string, string> {
+  return process.env.BE_API_KEY ? { "x-api-key": process.env.BE_API_KEY } : {};
+}
+
+/**
+ * A property from the backend, null if it no longer exists
+ */
+export async function fetchProperty(propertyId: number): Promise<ListingProperty | null> {
+  const response = await axios.get(`${getBackendUrl()}/api/mcp/tools/property/${propertyId}`, {
+    headers: getBackendHeaders(),
+    timeout: 10000,
+    validateStatus: (status) => status === 200 || status === 404,
+  });
+  return response.status === 404 ? null : response.data;
+}
+
+/**
+ * Ids of all properties listed by the backend, paging through its search until a page
+ * comes back empty
+ * Also stops on a page with no new ids, in case the backend ignores the page parameter
+ */
+async function fetchBackendPropertyIds(): Promise<number[]> {
+  const ids = new Set<number>();
+
+  for (let page = 0; ; page++) {
+    const response = await axios.get(`${getBackendUrl()}/api/mcp/tools/property/search`, {
+      headers: getBackendHeaders(),
+      params: { page, size: BACKEND_PAGE_SIZE, sort: "id", order: "asc" },
+      timeout: 30000,
+    });
+    const properties = response.data as ListingProperty[];
+    const before = ids.size;
+    properties.forEach((property) => ids.add(property.id));
+    if (properties.length === 0 || ids.size === before) break;
+  }
+
+  console.log(`[PropertySync] Backend lists ${ids.size} properties`);
+  return [...ids];
+}
+
+/**
+ * The header fields of a backend property
+ */
+function toPropertyInfo(property: ListingProperty): PropertyInfo {
+  return {
+    description: property.description,
+    price: property.price,
+    room_size: property.roomSize,
+    address_details: property.addressDetails,
+  };
+}
+
+/**
+ * Replace the header chunks of one version of a document with the ones built from the
+ * current property data
+ * Returns false when the header text is unchanged
+ */
+async function syncVersionHeader(
+  oldChunks: ESChunk[],
+  oldIds: string[],
+  info: PropertyInfo
+): Promise<boolean> {
+  const headerChunks = buildPropertyHeaderChunks(info);
+  const oldTexts = oldChunks.map((chunk) => chunk.chunk_text);
+  if (
+    headerChunks.length === oldTexts.length &&
+    headerChunks.every((chunk, i) => chunk.text === oldTexts[i])
+  ) {
+    return false;
+  }
+
+  // Everything but the header text comes from the chunks being replaced
+  const {
+    embedding: _embedding,
+    chunk_metadata: _metadata,
+    rental_terms: _terms,
+    ...base
+  } = oldChunks[0];
+  const createdAt = new Date().toISOString();
+  const embeddings = await generateEmbeddings(headerChunks.map((chunk) => chunk.text));
+
+  const newChunks: ESChunk[] = headerChunks.map((chunk, i) => ({
+    ...base,
+    chunk_text: chunk.text,
+    chunk_index: i - headerChunks.length,
+    chunk_metadata: chunk.metadata,
+    rental_terms: extractRentalTerms(chunk.text) ?? undefined,
+    content_hash: hashChunkContent(chunk, base.chunking_strategy || "", base),
+    embedding: embeddings[i],
+    created_at: createdAt,
+  }));
+  const newIds = assignChunkIds(newChunks);
+  newChunks.forEach((chunk, i) => (chunk.chunk_id = newIds[i]));
+
+  const result = await replaceChunks(
+    newChunks,
+    oldIds.filter((id) => !newIds.includes(id))
+  );
+  if (result.errors) {
+    throw new Error(`Replacing the header chunks of document ${base.document_id} failed`);
+  }
+  return true;
+}
+
+/**
+ * Refresh the header chunks of every kept (active or inactive) version of a document
+ * Runs under the document lock and reads the chunks inside it, so the version and is_active
+ * copied into the new chunks can't be changed by an activation or rollback meanwhile
+ * Returns false when no header text changed
+ */
+async function syncDocumentHeader(
+  documentId: number,
+  propertyId: number,
+  info: PropertyInfo
+): Promise<boolean> {
+  return withDocumentLock(documentId, async () => {
+    const kept = new Set(
+      (await listDocumentVersions(documentId))
+        .filter((version) => version.status === "active" || version.status === "inactive")
+        .map((version) => version.version)
+    );
+
+    // Chunks indexed before versioning have no version yet and belong to the live document
+    const versions = new Map<number | undefined, { chunks: ESChunk[]; ids: string[] }>();
+    for (const hit of await getDocumentHeaderChunks(documentId, propertyId)) {
+      const version = hit._source.version;
+      if (version !== undefined && !kept.has(version)) continue;
+
+      const entry = versions.get(version) || { chunks: [], ids: [] };
+      entry.chunks.push(hit._source);
+      entry.ids.push(hit._id);
+      versions.set(version, entry);
+    }
+
+    let updated = false;
+    for (const { chunks, ids } of versions.values()) {
+      updated = (await syncVersionHeader(chunks, ids, info)) || updated;
+    }
+    return updated;
+  });
+}
+
+/**
+ * Refresh the header chunks of every document of a property, and its listing document
+ * Returns null when the backend doesn't know the property: its listing document is removed,
+ * header chunks of uploaded documents are left as they are
+ */
+export async function syncPropertyMetadata(
+  propertyId: number
+): Promise<PropertySyncResult | null> {
+  const property = await fetchProperty(propertyId);
+  const listing = await syncListingDocument(propertyId, property);
+  if (!property) {
+    return null;
+  }
+  const info = toPropertyInfo(property);
+
+  const documentIds = await listPropertyHeaderDocumentIds(propertyId);
+
+  const result: PropertySyncResult = {
+    property_id: propertyId,
+    documents: documentIds.length,
+    updated: 0,
+    unchanged: 0,
+    listing,
+  };
+  for (const documentId of documentIds) {
+    if (await syncDocumentHeader(documentId, propertyId, info)) {
+      result.updated++;
+    } else {
+      result.unchanged++;
+    }
+  }
+
+  if (result.updated > 0) {
+    console.log(
+      `[PropertySync] Property ${propertyId}: refreshed the header of ${result.updated} document(s)`
+    );
+  }
+  return result;
+}
+
+/**
+ * Sync every backend property and every property with header chunks or a listing document,
+ * one at a time
+ */
+export async function reconcileProperties(): Promise<void> {
+  if (reconciling) {
+    return;
+  }
+  reconciling = true;
+
+  try {
+    const backendPropertyIds = await fetchBackendPropertyIds().catch((error) => {
+      console.error("[PropertySync] Error listing backend properties:", error.message);
+      return [] as number[];
+    });
+    const propertyIds = [
+      ...new Set([
+        ...backendPropertyIds,
+        ...(await listHeaderPropertyIds()),
+        ...(await listListingPropertyIds()),
+      ]),
+    ];
+    let updated = 0;
+    let listings = 0;
+    let failed = 0;
+
+    for (const propertyId of propertyIds) {
+      try {
+        const result = await syncPropertyMetadata(propertyId);
+        updated += result?.updated || 0;
+        listings += result && ["created", "updated"].includes(result.listing) ? 1 : 0;
+      } catch (error) {
+        failed++;
+        console.error(
+          `[PropertySync] Error syncing property ${propertyId}:`,
+          (error as Error).message
+        );
+      }
+    }
+
+    console.log(
+      `[PropertySync] Reconciled ${propertyIds.length} properties: ${updated} document ` +
+        `header(s) and ${listings} listing document(s) refreshed, ${failed} failed`
+    );
+  } catch (error) {
+    console.error("[PropertySync] Reconciliation failed:", (error as Error).message);
+  } finally {
+    reconciling = false;
+  }
+}
+
+/**
+ * Run reconcileProperties every PROPERTY_SYNC_INTERVAL_MINUTES (0 disables it)
+ */
+export function startPropertyReconciler(): void {
+  if (reconcileTimer || RECONCILE_INTERVAL_MINUTES <= 0) {
+    return;
+  }
+
+  reconcileTimer = setInterval(reconcileProperties, RECONCILE_INTERVAL_MINUTES * 60 * 1000);
+  // Don't keep the process alive just for the reconciler
+  reconcileTimer.unref();
+
+  // Generate missing listing documents right away rather than after the first interval
+  reconcileProperties();
+  console.log(`[PropertySync] Reconciling properties every ${RECONCILE_INTERVAL_MINUTES} minutes`);
+}
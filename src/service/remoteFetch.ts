@@ -0,0 +1,251 @@
+/**
+ * Remote Fetch
+ * Downloads documents from caller-supplied URLs (process-url) without letting the caller reach
+ * internal services or exhaust memory (webhook deliveries use the same address checks):
+ * - only http(s) URLs on REMOTE_FETCH_ALLOWED_HOSTS; nothing is fetched while it is unset,
+ *   "*" opts in to any public host
+ * - every address a host resolves to is checked at connect time, so private, loopback and
+ *   link-local ranges stay unreachable even through DNS rebinding
+ * - redirects are followed by hand, each hop re-validated, at most REMOTE_FETCH_MAX_REDIRECTS
+ * - the body is streamed and aborted once it passes REMOTE_FETCH_MAX_SIZE_MB
+ * - network errors, 5xx and 429 are retried with exponential backoff
+ */
+
+import axios, { AxiosResponse } from "axios";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { Readable } from "stream";
+
+const ALLOWED_HOSTS = (process.env.REMOTE_FETCH_ALLOWED_HOSTS || "")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+// Development only: lets storage run on localhost or a private network
+const ALLOW_PRIVATE_ADDRESSES = process.env.REMOTE_FETCH_ALLOW_PRIVATE === "true";
+const MAX_SIZE_MB = parseInt(
+  process.env.REMOTE_FETCH_MAX_SIZE_MB || process.env.RAG_MAX_UPLOAD_SIZE_MB || "20",
+  10
+);
+const MAX_REDIRECTS = parseInt(process.env.REMOTE_FETCH_MAX_REDIRECTS || "3", 10);
+const MAX_RETRIES = parseInt(process.env.REMOTE_FETCH_RETRIES || "3", 10);
+const RETRY_DELAY_MS = parseInt(process.env.REMOTE_FETCH_RETRY_DELAY_MS || "500", 10);
+const TIMEOUT_MS = parseInt(process.env.REMOTE_FETCH_TIMEOUT_MS || "60000", 10);
+
+// Ranges no document URL may reach (IPv4-mapped IPv6 addresses match the IPv4 rules)
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * The URL or the response breaks the fetch policy; retrying can't help
+ */
+export class RemoteFetchRejectedError extends Error {}
+
+export interface RemoteFile {
+  data: Buffer;
+  contentType?: string;
+  // URL the file was finally served from, after redirects
+  url: string;
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = net.isIPv6(address) ? "ipv6" : "ipv4";
+  return !ALLOW_PRIVATE_ADDRESSES && BLOCKED_ADDRESSES.check(address, family);
+}
+
+function isAllowedHost(hostname: string): boolean {
+  // "*" allows any host, "*.example.com" every subdomain of example.com
+  return ALLOWED_HOSTS.some(
+    (allowed) =>
+      allowed === "*" ||
+      (allowed.startsWith("*.") ? hostname.endsWith(allowed.slice(1)) : hostname === allowed)
+  );
+}
+
+/**
+ * Check that a URL is http(s) and not an IP literal in a blocked range
+ * Host names are checked once resolved, at connect time, by requests made with safeLookup
+ */
+export function validatePublicUrl(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new RemoteFetchRejectedError(`Invalid URL: ${rawUrl}`);
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new RemoteFetchRejectedError(`Unsupported protocol ${url.protocol}`);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  // IP literals never go through DNS lookup
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new RemoteFetchRejectedError(`Address ${hostname} is not reachable`);
+  }
+  return url;
+}
+
+/**
+ * Check a document URL against the fetch policy before anything is requested
+ */
+export function validateRemoteUrl(rawUrl: string): URL {
+  if (ALLOWED_HOSTS.length === 0) {
+    throw new RemoteFetchRejectedError(
+      "Remote fetching is disabled: REMOTE_FETCH_ALLOWED_HOSTS is not configured"
+    );
+  }
+  const url = validatePublicUrl(rawUrl);
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (!isAllowedHost(hostname)) {
+    throw new RemoteFetchRejectedError(`Host ${hostname} is not an allowed storage host`);
+  }
+  return url;
+}
+
+/**
+ * dns.lookup that fails when the host resolves to a blocked address
+ * The socket connects to the address checked here, so a second lookup can't swap it
+ */
+export const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, []);
+    }
+    const blocked = addresses.find((entry) => isBlockedAddress(entry.address));
+    if (blocked) {
+      const message = `Host ${hostname} resolves to blocked address ${blocked.address}`;
+      return callback(new RemoteFetchRejectedError(message), []);
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Agents whose connections resolve host names through safeLookup
+ */
+export const safeAgents = {
+  httpAgent: new http.Agent({ lookup: safeLookup }),
+  httpsAgent: new https.Agent({ lookup: safeLookup }),
+};
+
+/**
+ * Read a response body, aborting as soon as it exceeds maxBytes
+ */
+async function readLimited(stream: Readable, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      stream.destroy();
+      throw new RemoteFetchRejectedError(`Document is larger than ${MAX_SIZE_MB} MB`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * One download attempt, following redirects
+ */
+async function fetchOnce(rawUrl: string): Promise<RemoteFile> {
+  const maxBytes = MAX_SIZE_MB * 1024 * 1024;
+  let url = validateRemoteUrl(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    const response: AxiosResponse<Readable> = await axios
+      .get(url.toString(), {
+        responseType: "stream",
+        maxRedirects: 0,
+        validateStatus: () => true,
+        ...safeAgents,
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      })
+      .catch((error) => {
+        // A blocked address surfaces from the lookup wrapped in an AxiosError
+        throw error.cause instanceof RemoteFetchRejectedError ? error.cause : error;
+      });
+    const location = response.headers["location"]?.toString();
+
+    if (response.status >= 300 && response.status < 400 && location) {
+      response.data.destroy();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new RemoteFetchRejectedError(`More than ${MAX_REDIRECTS} redirects`);
+      }
+      url = validateRemoteUrl(new URL(location, url).toString());
+      continue;
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      response.data.destroy();
+      const message = `Fetching ${url.origin}${url.pathname} failed with status ${response.status}`;
+      // Server errors and rate limiting may pass; any other status won't
+      if (response.status >= 500 || response.status === 429) {
+        throw new Error(message);
+      }
+      throw new RemoteFetchRejectedError(message);
+    }
+
+    const declaredLength = Number(response.headers["content-length"] || 0);
+    if (declaredLength > maxBytes) {
+      response.data.destroy();
+      throw new RemoteFetchRejectedError(`Document is larger than ${MAX_SIZE_MB} MB`);
+    }
+
+    return {
+      data: await readLimited(response.data, maxBytes),
+      contentType: response.headers["content-type"]?.toString(),
+      url: url.toString(),
+    };
+  }
+}
+
+/**
+ * Download a document from a caller-supplied URL under the fetch policy
+ * Rejections (RemoteFetchRejectedError) fail at once, other errors are retried
+ * REMOTE_FETCH_RETRIES times with exponential backoff
+ */
+export async function fetchRemoteFile(url: string): Promise<RemoteFile> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url);
+    } catch (error) {
+      if (error instanceof RemoteFetchRejectedError || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+      const delay = RETRY_DELAY_MS * 2 ** attempt;
+      console.warn(
+        `[RemoteFetch] Attempt ${attempt + 1} failed (${(error as Error).message}), ` +
+          `retrying in ${delay}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
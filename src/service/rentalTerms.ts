@@ -0,0 +1,300 @@
+/**
+ * Rental Terms
+ * Prices, deposits, utility rates and contract terms are written in free text, in the many
+ * ways Vietnamese landlords write amounts ("3tr5", "3.500.000đ", "3,5 triệu", "3k5/số").
+ * Each chunk's text is parsed into typed fields (amounts in VND, durations in months or days)
+ * stored with the chunk as rental_terms, so they can be filtered and compared; the property
+ * terms endpoint gathers them with the chunks they were read from.
+ */
+
+import { getPropertyTermChunks } from "../elasticsearchClient";
+import {
+  ESChunk,
+  PropertyRentalTerms,
+  RentalTermKey,
+  RentalTerms,
+  RentalTermSource,
+} from "../types";
+
+/**
+ * One term read from a chunk, with the text it was read from
+ */
+export interface RentalTermMatch {
+  term: RentalTermKey;
+  value: number | string;
+  text: string;
+}
+
+// Amount: digits (with "." / "," separators), an optional unit and, after tr/k, the
+// fraction digits of "3tr5" / "3k5"
+const AMOUNT_PATTERN =
+  /(\d+(?:[.,]\d+)*)\s*(triệu|tr|k|nghìn|ngàn|đồng|đ|vnđ|vnd)?(?:(?<=tr|k)(\d{1,3}))?(?![\p{L}\d])/iu;
+const DURATION_PATTERN = /(\d+)\s*(ngày|tuần|tháng|năm)(?!\p{L})/iu;
+const WATER_UNIT_PATTERN = /^\s*(?:\/|một|mỗi|1)?\s*(khối|m3|m³|người|tháng)/iu;
+const FREE_PATTERN = /^\s*[:\-–]?\s*(?:là\s*)?(?:miễn\s*phí|free|không\s*tính)/iu;
+// Text allowed between a label and its value ("Giá thuê phòng: ", "Điện tính ")
+const LABEL_GAP = /^[^\n\d]{0,30}?(?=\d)/u;
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  triệu: 1000000,
+  tr: 1000000,
+  k: 1000,
+  nghìn: 1000,
+  ngàn: 1000,
+};
+
+// Smallest amount taken as a price; smaller numbers are counts, dates or times
+const MIN_AMOUNT = 1000;
+
+interface TermRule {
+  term: RentalTermKey;
+  label: RegExp;
+  kind: "amount" | "duration";
+  // Amounts that are also free when the label is followed by "miễn phí"
+  canBeFree?: boolean;
+}
+
+const TERM_RULES: TermRule[] = [
+  {
+    term: "price",
+    label: /giá\s*(?:thuê|phòng)|tiền\s*(?:thuê|phòng|nhà)/giu,
+    kind: "amount",
+  },
+  { term: "deposit", label: /tiền\s*cọc|đặt\s*cọc|cọc/giu, kind: "amount" },
+  { term: "electricity_per_kwh", label: /điện(?!\s*thoại)/giu, kind: "amount", canBeFree: true },
+  { term: "water_rate", label: /nước(?!\s*nóng)/giu, kind: "amount", canBeFree: true },
+  { term: "internet_fee", label: /internet|wi-?fi|mạng/giu, kind: "amount", canBeFree: true },
+  {
+    term: "parking_fee",
+    label: /(?:gửi|giữ|để)\s*xe|phí\s*xe|parking/giu,
+    kind: "amount",
+    canBeFree: true,
+  },
+  {
+    term: "min_term_months",
+    label:
+      /thời\s*hạn\s*(?:hợp\s*đồng|thuê)|(?:hợp\s*đồng|thuê|ký)\s*(?:tối\s*thiểu|ít\s*nhất)|ký\s*hợp\s*đồng/giu,
+    kind: "duration",
+  },
+  { term: "notice_days", label: /báo\s*trước/giu, kind: "duration" },
+];
+
+/**
+ * Parse a Vietnamese amount into VND: "3tr5" and "3,5 triệu" are 3500000,
+ * "3.500.000đ" is 3500000, "3k5" is 3500
+ */
+export function parseVndAmount(text: string): number | null {
+  const match = text.trim().match(AMOUNT_PATTERN);
+  if (!match || match.index !== 0) {
+    return null;
+  }
+  const [, digits, unit, fraction] = match;
+  const multiplier = UNIT_MULTIPLIERS[unit?.toLowerCase()] || 1;
+
+  // "." / "," before exactly three digits group thousands, otherwise it's a decimal comma
+  const groups = digits.split(/[.,]/);
+  let number: number;
+  if (groups.slice(1).every((group) => group.length === 3)) {
+    number = parseInt(groups.join(""), 10);
+  } else if (groups.length === 2) {
+    number = parseFloat(`${groups[0]}.${groups[1]}`);
+  } else {
+    return null;
+  }
+  if (fraction) {
+    number += parseFloat(`0.${fraction}`);
+  }
+  return Math.round(number * multiplier);
+}
+
+/**
+ * Parse a duration into months ("1 năm" is 12) or days ("1 tháng" is 30)
+ */
+function parseDuration(text: string, unit: "months" | "days"): number | null {
+  const match = text.match(DURATION_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const count = parseInt(match[1], 10);
+  const days: Record<string, number> = { ngày: 1, tuần: 7, tháng: 30, năm: 365 };
+  const months: Record<string, number> = { tháng: 1, năm: 12 };
+  const name = match[2].toLowerCase();
+  if (unit === "days") {
+    return count * days[name];
+  }
+  return months[name] ? count * months[name] : null;
+}
+
+/**
+ * Unit a water rate is charged by, from the text following the amount
+ */
+function parseWaterUnit(
+  text: string
+): { unit: NonNullable<RentalTerms["water_rate_unit"]>; length: number } | null {
+  const match = text.match(WATER_UNIT_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const name = match[1].toLowerCase();
+  return {
+    unit: name === "người" ? "person" : name === "tháng" ? "month" : "m3",
+    length: match[0].length,
+  };
+}
+
+/**
+ * Read one term's value right after its label
+ * Returns the value with the text span it covers, null if the label has no usable value
+ */
+function readTermValue(
+  rule: TermRule,
+  text: string,
+  labelEnd: number
+): { matches: RentalTermMatch[]; end: number } | null {
+  const rest = text.slice(labelEnd, labelEnd + 80);
+
+  if (rule.canBeFree) {
+    const free = rest.match(FREE_PATTERN);
+    if (free) {
+      const matches = [{ term: rule.term, value: 0, text: "" }];
+      return { matches, end: labelEnd + free[0].length };
+    }
+  }
+
+  const gap = rest.match(LABEL_GAP);
+  if (!gap) {
+    return null;
+  }
+  const valueText = rest.slice(gap[0].length);
+
+  if (rule.kind === "duration") {
+    const duration = valueText.match(DURATION_PATTERN);
+    if (!duration || duration.index !== 0) {
+      return null;
+    }
+    const value = parseDuration(duration[0], rule.term === "notice_days" ? "days" : "months");
+    return value === null
+      ? null
+      : {
+          matches: [{ term: rule.term, value, text: "" }],
+          end: labelEnd + gap[0].length + duration[0].length,
+        };
+  }
+
+  // "cọc 1 tháng" is a deposit of one month's rent
+  const duration = valueText.match(DURATION_PATTERN);
+  if (rule.term === "deposit" && duration?.index === 0 && /tháng/iu.test(duration[2])) {
+    return {
+      matches: [{ term: "deposit_months", value: parseInt(duration[1], 10), text: "" }],
+      end: labelEnd + gap[0].length + duration[0].length,
+    };
+  }
+
+  const amount = valueText.match(AMOUNT_PATTERN);
+  const value = amount?.index === 0 ? parseVndAmount(amount[0]) : null;
+  if (value === null || value < MIN_AMOUNT) {
+    return null;
+  }
+  let end = labelEnd + gap[0].length + amount![0].length;
+  const matches: RentalTermMatch[] = [{ term: rule.term, value, text: "" }];
+
+  if (rule.term === "water_rate") {
+    const unit = parseWaterUnit(text.slice(end, end + 15));
+    if (unit) {
+      matches.push({ term: "water_rate_unit", value: unit.unit, text: "" });
+      end += unit.length;
+    }
+  }
+  return { matches, end };
+}
+
+/**
+ * Every term found in a text, in text order; a term can be found several times
+ */
+export function findRentalTerms(text: string): RentalTermMatch[] {
+  const normalized = text.normalize("NFC");
+  const found: { start: number; matches: RentalTermMatch[] }[] = [];
+
+  for (const rule of TERM_RULES) {
+    for (const label of normalized.matchAll(rule.label)) {
+      const start = label.index!;
+      const result = readTermValue(rule, normalized, start + label[0].length);
+      if (!result) {
+        continue;
+      }
+      const excerpt = normalized.slice(start, result.end).replace(/\s+/g, " ").trim();
+      found.push({
+        start,
+        matches: result.matches.map((match) => ({ ...match, text: excerpt })),
+      });
+    }
+  }
+
+  return found.sort((a, b) => a.start - b.start).flatMap(({ matches }) => matches);
+}
+
+/**
+ * Typed terms of a text (the first value found for each), null if there are none
+ */
+export function extractRentalTerms(text: string): RentalTerms | null {
+  const terms: Record<string, number | string> = {};
+  for (const match of findRentalTerms(text)) {
+    if (!(match.term in terms)) {
+      terms[match.term] = match.value;
+    }
+  }
+  return Object.keys(terms).length > 0 ? (terms as RentalTerms) : null;
+}
+
+/**
+ * Owner documents state the actual terms; the header and listing only repeat backend data
+ */
+function sourceRank(chunk: ESChunk): number {
+  if (chunk.document_source === "listing") {
+    return 2;
+  }
+  return chunk.chunk_type === "property_header" ? 1 : 0;
+}
+
+/**
+ * A property's rental terms with the chunks stating them
+ * Each term takes its value from the first source; water_rate_unit always comes from the
+ * chunk water_rate does
+ */
+export async function getPropertyRentalTerms(propertyId: number): Promise<PropertyRentalTerms> {
+  const chunks = (await getPropertyTermChunks(propertyId)).sort(
+    (a, b) => sourceRank(a) - sourceRank(b)
+  );
+  const sources: Partial<Record<RentalTermKey, RentalTermSource[]>> = {};
+
+  for (const chunk of chunks) {
+    for (const match of findRentalTerms(chunk.chunk_text)) {
+      (sources[match.term] ||= []).push({
+        value: match.value,
+        excerpt: match.text,
+        chunk_id: chunk.chunk_id,
+        document_id: chunk.document_id,
+        title: chunk.title,
+        chunk_index: chunk.chunk_index,
+        document_source: chunk.document_source,
+        chunk_type: chunk.chunk_type,
+      });
+    }
+  }
+
+  const terms: Record<string, number | string> = {};
+  for (const [term, termSources] of Object.entries(sources)) {
+    if (term !== "water_rate_unit") {
+      terms[term] = termSources![0].value;
+    }
+  }
+  const water = sources.water_rate?.[0];
+  const waterUnit = sources.water_rate_unit?.find(
+    (source) => source.chunk_id === water?.chunk_id && source.excerpt === water?.excerpt
+  );
+  if (waterUnit) {
+    terms.water_rate_unit = waterUnit.value;
+  }
+
+  return { property_id: propertyId, terms: terms as RentalTerms, sources };
+}
@@ -0,0 +1,227 @@
+/**
+ * RTF Extraction Service
+ * Minimal RTF reader: keeps body text, drops font/style/picture tables
+ * Handles \uN unicode escapes and \'hh bytes in the document's ANSI code page
+ */
+
+import fs from "fs-extra";
+
+// Destination groups whose content is not document text
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "info",
+  "pict",
+  "object",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "fldinst",
+  "themedata",
+  "colorschememapping",
+  "latentstyles",
+  "datastore",
+  "xmlnstbl",
+  "generator",
+  "pgdsctbl",
+]);
+
+const SYMBOL_WORDS: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  sect: "\n\n",
+  page: "\n\n",
+  tab: "\t",
+  cell: " | ",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+};
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number;
+}
+
+/**
+ * Convert RTF source to plain text
+ */
+export function rtfToText(rtf: string): string {
+  let codePage = "windows-1252";
+  const output: string[] = [];
+  const pendingBytes: number[] = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let fallbackToSkip = 0;
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    let decoded: string;
+    try {
+      decoded = new TextDecoder(codePage).decode(Uint8Array.from(pendingBytes));
+    } catch {
+      decoded = Buffer.from(pendingBytes).toString("latin1");
+    }
+    if (!state.skip) output.push(decoded);
+    pendingBytes.length = 0;
+  };
+
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) output.push(text);
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      i++;
+      continue;
+    }
+
+    if (char === "}") {
+      flushBytes();
+      state = stack.pop() || { skip: false, unicodeSkip: 1 };
+      i++;
+      continue;
+    }
+
+    if (char === "\r" || char === "\n") {
+      i++;
+      continue;
+    }
+
+    if (char !== "\\") {
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else {
+        emit(char);
+      }
+      i++;
+      continue;
+    }
+
+    // Control symbol or control word
+    const next = rtf[i + 1];
+
+    if (next === "'") {
+      const byte = parseInt(rtf.substr(i + 2, 2), 16);
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else if (!isNaN(byte)) {
+        pendingBytes.push(byte);
+      }
+      i += 4;
+      continue;
+    }
+
+    if (next === "\\" || next === "{" || next === "}") {
+      emit(next);
+      i += 2;
+      continue;
+    }
+
+    if (next === "*") {
+      state.skip = true;
+      i += 2;
+      continue;
+    }
+
+    if (next === "~") {
+      emit(" ");
+      i += 2;
+      continue;
+    }
+
+    if (next === "_") {
+      emit("-");
+      i += 2;
+      continue;
+    }
+
+    if (next === "\r" || next === "\n") {
+      emit("\n");
+      i += 2;
+      continue;
+    }
+
+    const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+    if (!match) {
+      i += 2;
+      continue;
+    }
+
+    const [token, word, param] = match;
+    i += 1 + token.length;
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+
+    switch (word) {
+      case "ansicpg":
+        codePage = `windows-${param}`;
+        break;
+      case "uc":
+        state.unicodeSkip = parseInt(param || "1", 10);
+        break;
+      case "row":
+        // Drop the separator emitted by the row's last \cell
+        flushBytes();
+        if (!state.skip) {
+          if (output[output.length - 1] === " | ") output.pop();
+          output.push("\n");
+        }
+        break;
+      case "u": {
+        let codePoint = parseInt(param || "0", 10);
+        if (codePoint < 0) codePoint += 65536;
+        emit(String.fromCharCode(codePoint));
+        fallbackToSkip = state.unicodeSkip;
+        break;
+      }
+      default:
+        if (SYMBOL_WORDS[word]) {
+          emit(SYMBOL_WORDS[word]);
+        }
+    }
+  }
+
+  flushBytes();
+
+  return output
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .normalize("NFC"); // windows-1258 encodes Vietnamese tones as combining marks
+}
+
+/**
+ * Extract text from an .rtf file
+ */
+export async function extractTextFromRtf(filePath: string): Promise<string> {
+  // RTF is 7-bit ASCII; non-ASCII content is escaped
+  return rtfToText(await fs.readFile(filePath, "latin1"));
+}
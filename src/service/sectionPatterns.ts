@@ -0,0 +1,211 @@
+/**
+ * Section Pattern Definitions
+ * Regexes the semantic chunker uses to detect sections (giá thuê, địa chỉ, nội quy, ...)
+ * Defaults are loaded from a JSON/YAML file; owners can extend or replace them with
+ * pattern sets stored in PostgreSQL
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { Pool } from "pg";
+import { z } from "zod";
+import YAML from "yaml";
+import { CompiledSectionPattern } from "../types";
+
+const SECTION_PATTERNS_FILE =
+  process.env.RAG_SECTION_PATTERNS_FILE || path.join(__dirname, "../config/sectionPatterns.json");
+
+const sectionPatternSchema = z
+  .object({
+    title: z.string().trim().min(1),
+    priority: z.number().int().min(0).max(100),
+    regex: z.string().min(1),
+    // Extra RegExp flags; "g" is always added
+    flags: z
+      .string()
+      .regex(/^[imsu]*$/, "flags may only contain i, m, s, u")
+      .refine((flags) => !hasRepeatedFlags(flags), { message: "flags may not repeat" })
+      .default("i"),
+  })
+  // Checked with the flags it is compiled with: "u" rejects escapes like "\-" that are
+  // valid without it (invalid flags are reported on their own)
+  .superRefine((pattern, ctx) => {
+    const validFlags = /^[imsu]*$/.test(pattern.flags) && !hasRepeatedFlags(pattern.flags);
+    if (!isValidRegex(pattern.regex, validFlags ? pattern.flags : "")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["regex"],
+        message: "Invalid regular expression",
+      });
+    }
+  });
+
+export const sectionPatternSetSchema = z.object({
+  // "extend": owner patterns are tried before the defaults; "replace": only owner patterns
+  mode: z.enum(["extend", "replace"]).default("extend"),
+  patterns: z.array(sectionPatternSchema).min(1),
+});
+
+export type SectionPatternDefinition = z.infer<typeof sectionPatternSchema>;
+export type SectionPatternSet = z.infer<typeof sectionPatternSetSchema>;
+
+let defaultPatternSet: SectionPatternSet | null = null;
+let defaultPatterns: CompiledSectionPattern[] | null = null;
+let patternPool: Pool | null = null;
+
+function hasRepeatedFlags(flags: string): boolean {
+  return new Set(flags).size !== flags.length;
+}
+
+function isValidRegex(source: string, flags: string): boolean {
+  try {
+    new RegExp(source, `g${flags}`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a pattern set (throws ZodError on invalid input)
+ */
+export function parseSectionPatternSet(input: unknown): SectionPatternSet {
+  return sectionPatternSetSchema.parse(input);
+}
+
+export function compileSectionPatterns(
+  patterns: SectionPatternDefinition[]
+): CompiledSectionPattern[] {
+  return patterns.map((pattern) => ({
+    title: pattern.title,
+    priority: pattern.priority,
+    regex: new RegExp(pattern.regex, `g${pattern.flags}`),
+  }));
+}
+
+/**
+ * Read and validate a pattern file (.json, .yaml or .yml)
+ */
+export function loadSectionPatternFile(filePath: string): SectionPatternSet {
+  const raw = fs.readFileSync(filePath, "utf-8");
+  const data = /\.ya?ml$/i.test(filePath) ? YAML.parse(raw) : JSON.parse(raw);
+  return parseSectionPatternSet(data);
+}
+
+/**
+ * Default pattern set from RAG_SECTION_PATTERNS_FILE (loaded once)
+ */
+export function getDefaultSectionPatternSet(): SectionPatternSet {
+  if (!defaultPatternSet) {
+    defaultPatternSet = loadSectionPatternFile(SECTION_PATTERNS_FILE);
+    console.log(
+      `[SectionPatterns] Loaded ${defaultPatternSet.patterns.length} patterns from ${SECTION_PATTERNS_FILE}`
+    );
+  }
+  return defaultPatternSet;
+}
+
+export function getDefaultSectionPatterns(): CompiledSectionPattern[] {
+  if (!defaultPatterns) {
+    defaultPatterns = compileSectionPatterns(getDefaultSectionPatternSet().patterns);
+  }
+  return defaultPatterns;
+}
+
+/**
+ * Create the overrides table and validate the default pattern file
+ */
+export async function initializeSectionPatterns(pool: Pool): Promise<void> {
+  patternPool = pool;
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS rag_section_pattern_sets (
+      owner_id VARCHAR(255) PRIMARY KEY,
+      mode VARCHAR(20) NOT NULL DEFAULT 'extend',
+      patterns JSONB NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  getDefaultSectionPatterns();
+}
+
+function getPatternPool(): Pool {
+  if (!patternPool) {
+    throw new Error("Section patterns are not initialized");
+  }
+  return patternPool;
+}
+
+/**
+ * Get an owner's stored pattern set, or null when the owner uses the defaults
+ */
+export async function getOwnerSectionPatternSet(
+  ownerId: string
+): Promise<SectionPatternSet | null> {
+  const result = await getPatternPool().query(
+    "SELECT mode, patterns FROM rag_section_pattern_sets WHERE owner_id = $1",
+    [ownerId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return parseSectionPatternSet(result.rows[0]);
+}
+
+/**
+ * Store (or replace) an owner's pattern set
+ */
+export async function saveOwnerSectionPatternSet(
+  ownerId: string,
+  patternSet: SectionPatternSet
+): Promise<void> {
+  await getPatternPool().query(
+    `INSERT INTO rag_section_pattern_sets (owner_id, mode, patterns)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (owner_id)
+     DO UPDATE SET mode = EXCLUDED.mode, patterns = EXCLUDED.patterns, updated_at = NOW()`,
+    [ownerId, patternSet.mode, JSON.stringify(patternSet.patterns)]
+  );
+}
+
+/**
+ * Remove an owner's pattern set; returns false when none was stored
+ */
+export async function deleteOwnerSectionPatternSet(ownerId: string): Promise<boolean> {
+  const result = await getPatternPool().query(
+    "DELETE FROM rag_section_pattern_sets WHERE owner_id = $1",
+    [ownerId]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+/**
+ * Combine a pattern set with the defaults according to its mode
+ */
+export function resolveSectionPatterns(
+  patternSet: SectionPatternSet | null
+): CompiledSectionPattern[] {
+  if (!patternSet) {
+    return getDefaultSectionPatterns();
+  }
+
+  const ownerPatterns = compileSectionPatterns(patternSet.patterns);
+  return patternSet.mode === "replace"
+    ? ownerPatterns
+    : [...ownerPatterns, ...getDefaultSectionPatterns()];
+}
+
+/**
+ * Patterns used for an owner's documents (defaults when no owner or no override)
+ */
+export async function getSectionPatterns(ownerId?: string): Promise<CompiledSectionPattern[]> {
+  if (!ownerId || !patternPool) {
+    return getDefaultSectionPatterns();
+  }
+
+  return resolveSectionPatterns(await getOwnerSectionPatternSet(ownerId));
+}
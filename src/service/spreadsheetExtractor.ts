@@ -0,0 +1,109 @@
+/**
+ * Spreadsheet Extraction Service
+ * Turns .xlsx/.xls/.ods/.csv rows into "Header: value" text blocks
+ * Each block is one row (or a small group of rows) and becomes its own chunk
+ */
+
+import fs from "fs-extra";
+import path from "path";
+
+const SPREADSHEET_CONTENT_TYPES = [
+  "text/csv",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.oasis.opendocument.spreadsheet",
+];
+
+const SPREADSHEET_EXTENSIONS = [".csv", ".xlsx", ".xls", ".ods"];
+
+// Rows are separated from each other by a blank line so the row chunker can split on it
+export const ROW_BLOCK_SEPARATOR = "\n\n";
+
+export interface SpreadsheetExtractionOptions {
+  rowsPerChunk?: number;
+}
+
+/**
+ * Check whether a file should go through spreadsheet extraction
+ */
+export function isSpreadsheetFile(filePath: string, contentType: string): boolean {
+  if (SPREADSHEET_CONTENT_TYPES.some((type) => contentType.includes(type))) {
+    return true;
+  }
+  return SPREADSHEET_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Render one row as "Header: value | Header: value", skipping empty cells
+ */
+function formatRow(headers: string[], row: string[]): string {
+  const cells: string[] = [];
+
+  for (let i = 0; i < row.length; i++) {
+    // Multi-line cells are flattened so a row never spans a block separator
+    const value = String(row[i] ?? "")
+      .replace(/\s*\n\s*/g, " ")
+      .trim();
+    if (!value) continue;
+
+    const header = headers[i] || `Cột ${i + 1}`;
+    cells.push(`${header}: ${value}`);
+  }
+
+  return cells.join(" | ");
+}
+
+/**
+ * Extract spreadsheet rows as text blocks with the column names inlined
+ * The first non-empty row of each sheet is used as the header row
+ */
+export async function extractTextFromSpreadsheet(
+  filePath: string,
+  contentType: string,
+  options: SpreadsheetExtractionOptions = {}
+): Promise<string> {
+  const XLSX = require("xlsx");
+  const rowsPerChunk = Math.max(1, options.rowsPerChunk || 1);
+
+  // CSV is read as UTF-8 text so Vietnamese diacritics survive
+  const isCsv = contentType.includes("text/csv") || filePath.toLowerCase().endsWith(".csv");
+  const workbook = isCsv
+    ? XLSX.read(await fs.readFile(filePath, "utf-8"), { type: "string" })
+    : XLSX.read(await fs.readFile(filePath), { type: "buffer" });
+
+  const blocks: string[] = [];
+
+  for (const sheetName of workbook.SheetNames) {
+    const rows: string[][] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+      header: 1,
+      raw: false,
+      defval: "",
+      blankrows: false,
+    });
+
+    const nonEmptyRows = rows.filter((row) => row.some((cell) => String(cell).trim()));
+    if (nonEmptyRows.length < 2) continue;
+
+    const headers = nonEmptyRows[0].map((cell) => String(cell).trim());
+    const dataRows = nonEmptyRows.slice(1);
+
+    for (let i = 0; i < dataRows.length; i += rowsPerChunk) {
+      const group = dataRows.slice(i, i + rowsPerChunk);
+      const lines = group.map((row) => formatRow(headers, row)).filter((line) => line);
+      if (lines.length === 0) continue;
+
+      // Spreadsheet row numbers are 1-based and the header occupies the first row
+      const firstRow = i + 2;
+      const lastRow = i + group.length + 1;
+      const rowLabel = firstRow === lastRow ? `Dòng ${firstRow}` : `Dòng ${firstRow}-${lastRow}`;
+
+      blocks.push(`[Bảng ${sheetName} - ${rowLabel}]\n${lines.join("\n")}`);
+    }
+  }
+
+  console.log(
+    `[SpreadsheetExtractor] Extracted ${blocks.length} row block(s) from ${workbook.SheetNames.length} sheet(s)`
+  );
+
+  return blocks.join(ROW_BLOCK_SEPARATOR);
+}
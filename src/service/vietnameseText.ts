@@ -0,0 +1,40 @@
+/**
+ * Vietnamese Text
+ * The same Vietnamese word arrives in several encodings: precomposed (NFC) or decomposed
+ * (NFD, common in text copied from macOS and some PDFs), and with the tone mark on either
+ * vowel of "oa", "oe" and "uy" ("hoà" / "hòa", "thuỷ" / "thủy"). Both ingest and queries go
+ * through normalizeVietnamese so equal words embed and match the same way; foldVietnamese
+ * strips diacritics for comparing with text typed without them ("gia thue phong").
+ */
+
+// Combining tone marks: huyền, sắc, ngã, hỏi, nặng
+const TONE_MARKS = "\u0300\u0301\u0303\u0309\u0323";
+
+// Open syllable ending in oa/oe/uy with the tone on the last vowel ("hoà", "thuỷ"), in NFD;
+// the "u" of "qu" is part of the consonant, so "quý" keeps its tone on the y
+const NEW_STYLE_TONE = new RegExp(
+  `(?<![qQ])([oO](?=[aAeE])|[uU](?=[yY]))([aAeEyY])([${TONE_MARKS}])(?![\\p{L}\\p{M}])`,
+  "gu"
+);
+
+/**
+ * Unicode NFC with tone marks placed the traditional way ("hòa", "thủy", "khỏe"),
+ * the placement most Vietnamese text uses
+ */
+export function normalizeVietnamese(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(NEW_STYLE_TONE, "$1$3$2")
+    .normalize("NFC");
+}
+
+/**
+ * Text without diacritics ("giá thuê phòng" becomes "gia thue phong"; "đ" becomes "d")
+ */
+export function foldVietnamese(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D");
+}
@@ -0,0 +1,473 @@
+/**
+ * Webhooks
+ * Ingestion lifecycle events (document.processing, .completed, .failed, .deleted) are sent to
+ * every subscription registered for them. Deliveries are persisted in PostgreSQL before
+ * anything is sent, retried with exponential backoff and dead-lettered after
+ * WEBHOOK_MAX_ATTEMPTS failures; dead deliveries can be replayed.
+ *
+ * HTTP subscriptions receive a JSON POST of the WebhookPayload signed with their secret:
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ * The VAT service is a built-in subscription kept in line with VAT_SERVICE_URL: it receives
+ * its usual PATCH /api/v1/documents/:id status update for documents it submitted (process-url).
+ */
+
+import axios from "axios";
+import crypto, { randomUUID } from "crypto";
+import { Pool } from "pg";
+import { WebhookDelivery, WebhookEvent, WebhookPayload, WebhookSubscription } from "../types";
+import { RemoteFetchRejectedError, safeAgents, validatePublicUrl } from "./remoteFetch";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "document.processing",
+  "document.completed",
+  "document.failed",
+  "document.deleted",
+];
+const VAT_EVENTS: WebhookEvent[] = ["document.completed", "document.failed"];
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10);
+const RETRY_DELAY_SECONDS = parseInt(process.env.WEBHOOK_RETRY_DELAY_SECONDS || "30", 10);
+const TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000", 10);
+// A delivery still "delivering" this long after it was claimed was cut off (its instance
+// stopped) and is claimed again; an attempt lasts at most TIMEOUT_MS
+const STALE_DELIVERY_SECONDS = Math.ceil((TIMEOUT_MS * 2) / 1000);
+// Deliveries are sent right after an event; polling picks up retries that came due
+const POLL_INTERVAL_MS = 5000;
+const DISPATCH_BATCH_SIZE = 10;
+
+const SUBSCRIPTION_COLUMNS = "id, kind, url, events, active, description, created_at, updated_at";
+
+let webhookPool: Pool | null = null;
+let dispatchTimer: NodeJS.Timeout | null = null;
+let dispatching = false;
+
+/**
+ * Create the webhook tables, register the VAT subscription and start the dispatcher
+ */
+export async function initializeWebhooks(pool: Pool): Promise<void> {
+  webhookPool = pool;
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS rag_webhook_subscriptions (
+      id UUID PRIMARY KEY,
+      kind VARCHAR(20) NOT NULL DEFAULT 'http',
+      url TEXT NOT NULL,
+      secret TEXT,
+      events TEXT[] NOT NULL,
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      description TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pool.query(
+    `CREATE UNIQUE INDEX IF NOT EXISTS idx_rag_webhook_subscriptions_vat
+     ON rag_webhook_subscriptions (kind) WHERE kind = 'vat'`
+  );
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS rag_webhook_deliveries (
+      id UUID PRIMARY KEY,
+      subscription_id UUID NOT NULL REFERENCES rag_webhook_subscriptions (id) ON DELETE CASCADE,
+      event VARCHAR(50) NOT NULL,
+      payload JSONB NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_status_code INTEGER,
+      last_error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      delivered_at TIMESTAMPTZ,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pool.query(
+    `CREATE INDEX IF NOT EXISTS idx_rag_webhook_deliveries_due
+     ON rag_webhook_deliveries (status, next_attempt_at)`
+  );
+
+  await syncVatSubscription(pool);
+
+  if (!dispatchTimer) {
+    dispatchTimer = setInterval(dispatchDueDeliveries, POLL_INTERVAL_MS);
+    dispatchTimer.unref();
+  }
+  dispatchDueDeliveries();
+  console.log(`[Webhooks] Initialized (max ${MAX_ATTEMPTS} attempts per delivery)`);
+}
+
+function getWebhookPool(): Pool {
+  if (!webhookPool) {
+    throw new Error("Webhooks are not initialized");
+  }
+  return webhookPool;
+}
+
+/**
+ * VAT callback settings from server config, null when VAT_SERVICE_URL isn't set
+ */
+function getVatServiceConfig(): { url: string; headers: Record<string, string> } | null {
+  if (!process.env.VAT_SERVICE_URL) {
+    return null;
+  }
+  const apiKey = process.env.VAT_API_KEY || process.env.ADMIN_API_KEY;
+  return {
+    url: process.env.VAT_SERVICE_URL.replace(/\/+$/, ""),
+    headers: apiKey ? { "x-api-key": apiKey } : {},
+  };
+}
+
+/**
+ * Point the VAT subscription at VAT_SERVICE_URL, or deactivate it when that's unset
+ */
+async function syncVatSubscription(pool: Pool): Promise<void> {
+  const vat = getVatServiceConfig();
+  if (!vat) {
+    await pool.query(
+      "UPDATE rag_webhook_subscriptions SET active = FALSE, updated_at = NOW() WHERE kind = 'vat'"
+    );
+    return;
+  }
+
+  await pool.query(
+    `INSERT INTO rag_webhook_subscriptions (id, kind, url, events, description)
+     VALUES ($1, 'vat', $2, $3, 'VAT document status callback')
+     ON CONFLICT (kind) WHERE kind = 'vat' DO UPDATE
+     SET url = EXCLUDED.url, events = EXCLUDED.events, active = TRUE, updated_at = NOW()`,
+    [randomUUID(), vat.url, VAT_EVENTS]
+  );
+}
+
+export async function listWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+  const result = await getWebhookPool().query(
+    `SELECT ${SUBSCRIPTION_COLUMNS} FROM rag_webhook_subscriptions ORDER BY created_at`
+  );
+  return result.rows;
+}
+
+export async function getWebhookSubscription(id: string): Promise<WebhookSubscription | null> {
+  const result = await getWebhookPool().query(
+    `SELECT ${SUBSCRIPTION_COLUMNS} FROM rag_webhook_subscriptions WHERE id = $1`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Register an HTTP subscription; a secret is generated unless one is given
+ * The returned subscription is the only place the secret is shown
+ * Throws RemoteFetchRejectedError for URLs that aren't http(s) or point at a blocked address
+ */
+export async function createWebhookSubscription(subscription: {
+  url: string;
+  events: WebhookEvent[];
+  secret?: string;
+  description?: string;
+}): Promise<WebhookSubscription> {
+  validatePublicUrl(subscription.url);
+  const secret = subscription.secret || crypto.randomBytes(32).toString("hex");
+  const result = await getWebhookPool().query(
+    `INSERT INTO rag_webhook_subscriptions (id, url, secret, events, description)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${SUBSCRIPTION_COLUMNS}, secret`,
+    [
+      randomUUID(),
+      subscription.url,
+      secret,
+      [...new Set(subscription.events)],
+      subscription.description || null,
+    ]
+  );
+  console.log(`[Webhooks] Subscribed ${subscription.url} to ${subscription.events.join(", ")}`);
+  return result.rows[0];
+}
+
+/**
+ * Remove an HTTP subscription and its deliveries (the VAT one follows the config)
+ */
+export async function deleteWebhookSubscription(id: string): Promise<boolean> {
+  const result = await getWebhookPool().query(
+    "DELETE FROM rag_webhook_subscriptions WHERE id = $1 AND kind = 'http'",
+    [id]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+export async function listWebhookDeliveries(
+  filters: {
+    status?: string;
+    subscriptionId?: string;
+    event?: string;
+    limit?: number;
+  } = {}
+): Promise<WebhookDelivery[]> {
+  const result = await getWebhookPool().query(
+    `SELECT * FROM rag_webhook_deliveries
+     WHERE ($1::text IS NULL OR status = $1)
+       AND ($2::uuid IS NULL OR subscription_id = $2)
+       AND ($3::text IS NULL OR event = $3)
+     ORDER BY created_at DESC
+     LIMIT $4`,
+    [
+      filters.status || null,
+      filters.subscriptionId || null,
+      filters.event || null,
+      filters.limit || 50,
+    ]
+  );
+  return result.rows;
+}
+
+/**
+ * Record an event for every active subscription to it and send it right away
+ * Notifications never fail the operation that raised them: errors are only logged
+ * The VAT subscription only gets events of documents it submitted (data.source "url")
+ */
+export async function emitWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, any>
+): Promise<void> {
+  try {
+    const pool = getWebhookPool();
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      event,
+      created_at: new Date().toISOString(),
+      data,
+    };
+
+    const subscriptions = await pool.query(
+      `SELECT id, kind FROM rag_webhook_subscriptions WHERE active AND $1 = ANY(events)`,
+      [event]
+    );
+    const recipients = subscriptions.rows.filter(
+      (subscription) => subscription.kind !== "vat" || data.source === "url"
+    );
+
+    for (const subscription of recipients) {
+      await pool.query(
+        `INSERT INTO rag_webhook_deliveries (id, subscription_id, event, payload)
+         VALUES ($1, $2, $3, $4)`,
+        [randomUUID(), subscription.id, event, JSON.stringify(payload)]
+      );
+    }
+
+    if (recipients.length > 0) {
+      setImmediate(dispatchDueDeliveries);
+    }
+  } catch (error) {
+    console.error(`[Webhooks] Error recording ${event} event:`, (error as Error).message);
+  }
+}
+
+/**
+ * Send a delivery again from the first attempt
+ * Returns null if there's no such delivery or it's being sent right now
+ */
+export async function replayWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+  const result = await getWebhookPool().query(
+    `UPDATE rag_webhook_deliveries
+     SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_error = NULL,
+         last_status_code = NULL, delivered_at = NULL, updated_at = NOW()
+     WHERE id = $1 AND status <> 'delivering'
+     RETURNING *`,
+    [id]
+  );
+  if (result.rows.length > 0) {
+    setImmediate(dispatchDueDeliveries);
+  }
+  return result.rows[0] || null;
+}
+
+/**
+ * Send every dead delivery (optionally of one subscription) again
+ * Returns how many deliveries were requeued
+ */
+export async function replayDeadWebhookDeliveries(subscriptionId?: string): Promise<number> {
+  const result = await getWebhookPool().query(
+    `UPDATE rag_webhook_deliveries
+     SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_error = NULL,
+         last_status_code = NULL, updated_at = NOW()
+     WHERE status = 'dead' AND ($1::uuid IS NULL OR subscription_id = $1)`,
+    [subscriptionId || null]
+  );
+  if (result.rowCount) {
+    setImmediate(dispatchDueDeliveries);
+  }
+  return result.rowCount || 0;
+}
+
+/**
+ * Signature header for a request body: HMAC-SHA256 of "<timestamp>.<body>"
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Build the HTTP request a delivery is sent as
+ */
+function buildRequest(
+  subscription: { kind: string; url: string; secret: string | null },
+  delivery: WebhookDelivery
+): { method: "post" | "patch"; url: string; body: string; headers: Record<string, string> } {
+  const { payload } = delivery;
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Webhook-Id": delivery.id,
+    "X-Webhook-Event": delivery.event,
+  };
+
+  if (subscription.kind === "vat") {
+    const vat = getVatServiceConfig();
+    if (!vat) {
+      throw new Error("VAT_SERVICE_URL is not configured");
+    }
+    const body =
+      payload.event === "document.completed"
+        ? {
+            status: "completed",
+            processing_completed_at: payload.created_at,
+            chunk_count: payload.data.chunk_count,
+            metadata: payload.data.metadata,
+          }
+        : {
+            status: "failed",
+            processing_completed_at: payload.created_at,
+            error_message: payload.data.error_message,
+          };
+    return {
+      method: "patch",
+      url: `${vat.url}/api/v1/documents/${payload.data.document_id}`,
+      body: JSON.stringify(body),
+      headers: { ...headers, ...vat.headers },
+    };
+  }
+
+  const body = JSON.stringify(payload);
+  if (subscription.secret) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    headers["X-Webhook-Signature"] = signWebhookPayload(subscription.secret, body, timestamp);
+  }
+  return { method: "post", url: subscription.url, body, headers };
+}
+
+/**
+ * Make one attempt at a claimed delivery and record the outcome
+ */
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  const pool = getWebhookPool();
+  const attempts = delivery.attempts + 1;
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const subscription = await pool.query(
+      "SELECT kind, url, secret FROM rag_webhook_subscriptions WHERE id = $1",
+      [delivery.subscription_id]
+    );
+    const request = buildRequest(subscription.rows[0], delivery);
+    // Subscriber URLs get the remote fetch address checks; VAT_SERVICE_URL is server config
+    const external = subscription.rows[0].kind === "http";
+    if (external) {
+      validatePublicUrl(request.url);
+    }
+    const response = await axios
+      .request({
+        method: request.method,
+        url: request.url,
+        data: request.body,
+        headers: request.headers,
+        timeout: TIMEOUT_MS,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        ...(external ? safeAgents : {}),
+      })
+      .catch((requestError) => {
+        // A blocked address surfaces from the lookup wrapped in an AxiosError
+        throw requestError.cause instanceof RemoteFetchRejectedError
+          ? requestError.cause
+          : requestError;
+      });
+    statusCode = response.status;
+    if (response.status < 200 || response.status >= 300) {
+      error = `Responded with status ${response.status}`;
+    }
+  } catch (requestError) {
+    error = (requestError as Error).message;
+  }
+
+  if (!error) {
+    await pool.query(
+      `UPDATE rag_webhook_deliveries
+       SET status = 'delivered', attempts = $2, last_status_code = $3, last_error = NULL,
+           delivered_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [delivery.id, attempts, statusCode]
+    );
+    return;
+  }
+
+  const dead = attempts >= MAX_ATTEMPTS;
+  const delaySeconds = RETRY_DELAY_SECONDS * 2 ** (attempts - 1);
+  await pool.query(
+    `UPDATE rag_webhook_deliveries
+     SET status = $2, attempts = $3, last_status_code = $4, last_error = $5,
+         next_attempt_at = NOW() + make_interval(secs => $6), updated_at = NOW()
+     WHERE id = $1`,
+    [delivery.id, dead ? "dead" : "pending", attempts, statusCode, error, delaySeconds]
+  );
+
+  if (dead) {
+    console.error(
+      `[Webhooks] Delivery ${delivery.id} (${delivery.event}) dead after ${attempts} attempts: ${error}`
+    );
+  } else {
+    console.warn(
+      `[Webhooks] Delivery ${delivery.id} (${delivery.event}) failed: ${error}, ` +
+        `retrying in ${delaySeconds}s`
+    );
+  }
+}
+
+/**
+ * Send every due delivery, a batch at a time
+ * Claiming with SKIP LOCKED keeps several service instances from sending the same delivery;
+ * deliveries cut off mid-attempt are claimed again once stale (receivers dedupe on the
+ * payload id)
+ */
+async function dispatchDueDeliveries(): Promise<void> {
+  if (dispatching || !webhookPool) {
+    return;
+  }
+  dispatching = true;
+
+  try {
+    for (;;) {
+      const claimed = await webhookPool.query(
+        `UPDATE rag_webhook_deliveries SET status = 'delivering', updated_at = NOW()
+         WHERE id IN (
+           SELECT id FROM rag_webhook_deliveries
+           WHERE (status = 'pending' AND next_attempt_at <= NOW())
+              OR (status = 'delivering' AND updated_at < NOW() - make_interval(secs => $2))
+           ORDER BY next_attempt_at
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [DISPATCH_BATCH_SIZE, STALE_DELIVERY_SECONDS]
+      );
+      if (claimed.rows.length === 0) {
+        break;
+      }
+      await Promise.all(claimed.rows.map(attemptDelivery));
+    }
+  } catch (error) {
+    console.error("[Webhooks] Error dispatching deliveries:", (error as Error).message);
+  } finally {
+    dispatching = false;
+  }
+}
@@ -2,13 +2,16 @@ import { tool } from "@langchain/core/tools";
 import axios from "axios";
 import { z } from "zod";
 import dotenv from "dotenv";
+import { getPropertyRentalTerms } from "../service/rentalTerms";
+import { RentalTerms } from "../types";
 
 dotenv.config();
 
 /**
  * Tool: Compare Utility Pricing
  * Compares utility pricing (electricity, water, internet, etc.) between properties
- * Fetches data from multiple rooms to provide comparative analysis
+ * Fetches data from multiple rooms to provide comparative analysis; utility rates come from
+ * the rental terms extracted from each room's documents
  */
 export const compareUtilityPricingTool = tool(
   async ({
@@ -128,6 +131,17 @@ export const compareUtilityPricingTool = tool(
 `;
       }
 
+      // Utility rates read from the properties' documents (see rentalTerms)
+      const termsByProperty = await getRentalTermsByProperty([
+        ...(currentProperty ? [currentProperty.id] : []),
+        ...properties.map((p: any) => p.id),
+      ]);
+      const utilityComparison = compareUtilityRates(
+        termsByProperty,
+        currentProperty?.id,
+        properties.map((p: any) => p.id)
+      );
+
       // Format sample properties for reference
       const sampleProperties = properties.slice(0, 5).map((p: any) => {
         const pricePerSqm = p.price && p.roomSize ? p.price / p.roomSize : 0;
@@ -139,6 +153,7 @@ export const compareUtilityPricingTool = tool(
           pricePerSqm,
           location: `${p.district}, ${p.city}`,
           available: p.isRoomAvailable,
+          utilities: termsByProperty.get(p.id) || null,
         };
       });
 
@@ -165,8 +180,9 @@ export const compareUtilityPricingTool = tool(
           currentPropertyAnalysis: currentProperty
             ? currentPropertyComparison
             : "No current property specified",
+          utilityComparison,
           sampleProperties,
-          note: "These statistics are for room rent prices only. Utility costs (electricity, water, internet) are typically charged separately and may vary by landlord. To get accurate utility pricing comparison, you should also search for current government rates and compare with what other landlords charge.",
+          note: "Utility rates (VND; electricity per kWh, water per its unit) come from the landlords' documents and are only known for properties whose documents state them. For properties without them, or to compare with official rates, also use web_search.",
         },
         null,
         2
@@ -179,7 +195,7 @@ export const compareUtilityPricingTool = tool(
   {
     name: "compare_utility_pricing",
     description:
-      "Compare property pricing and market data across multiple properties. Use this when user asks comparative questions like 'Is this cheaper than other rentals?', 'How does this compare to other rooms?', 'Is this a good deal?'. Provides market statistics (average, min, max prices), price per square meter comparison, and percentile ranking. Can focus on specific area if current_property_id is provided. Use together with web_search tool for complete utility comparison (electricity, water rates). For distance comparisons between properties, use the calculate_distance tool separately.",
+      "Compare property pricing and market data across multiple properties. Use this when user asks comparative questions like 'Is this cheaper than other rentals?', 'How does this compare to other rooms?', 'Is this a good deal?'. Provides market statistics (average, min, max prices), price per square meter comparison, percentile ranking, and electricity/water/internet/parking rates stated in the rooms' documents. Can focus on specific area if current_property_id is provided. Use together with web_search tool when utility rates are unknown or to compare with official rates. For distance comparisons between properties, use the calculate_distance tool separately.",
     schema: z.object({
       current_property_id: z
         .number()
@@ -194,6 +210,76 @@ export const compareUtilityPricingTool = tool(
   }
 );
 
+const UTILITY_TERMS = ["electricity_per_kwh", "water_rate", "internet_fee", "parking_fee"] as const;
+
+/**
+ * Rental terms of each property that has any, fetched in parallel
+ */
+async function getRentalTermsByProperty(propertyIds: number[]): Promise<Map<number, RentalTerms>> {
+  const termsByProperty = new Map<number, RentalTerms>();
+  await Promise.all(
+    [...new Set(propertyIds)].map(async (propertyId) => {
+      try {
+        const { terms } = await getPropertyRentalTerms(propertyId);
+        if (Object.keys(terms).length > 0) {
+          termsByProperty.set(propertyId, terms);
+        }
+      } catch (error) {
+        console.error(
+          `[Tool: Compare Utilities] Error getting terms of room ${propertyId}:`,
+          (error as Error).message
+        );
+      }
+    })
+  );
+  return termsByProperty;
+}
+
+/**
+ * Min/average/max of each utility rate over the compared properties, and where the current
+ * property stands; water rates are only compared between properties charging the same way
+ */
+function compareUtilityRates(
+  termsByProperty: Map<number, RentalTerms>,
+  currentPropertyId: number | undefined,
+  comparedIds: number[]
+): Record<string, any> {
+  const current = currentPropertyId ? termsByProperty.get(currentPropertyId) : undefined;
+  const comparison: Record<string, any> = {};
+
+  for (const term of UTILITY_TERMS) {
+    const unit = term === "water_rate" ? current?.water_rate_unit : undefined;
+    const values = comparedIds
+      .filter((id) => id !== currentPropertyId)
+      .map((id) => termsByProperty.get(id))
+      .filter((terms) => terms?.[term] !== undefined && (!unit || terms.water_rate_unit === unit))
+      .map((terms) => terms![term] as number);
+    const currentValue = current?.[term];
+    if (values.length === 0 && currentValue === undefined) {
+      continue;
+    }
+
+    const average = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    comparison[unit ? `${term}_per_${unit}` : term] = {
+      current: currentValue === undefined ? "unknown" : formatCurrency(currentValue),
+      propertiesWithData: values.length,
+      min: values.length > 0 ? formatCurrency(Math.min(...values)) : null,
+      max: values.length > 0 ? formatCurrency(Math.max(...values)) : null,
+      average: values.length > 0 ? formatCurrency(average) : null,
+      position:
+        currentValue === undefined || values.length === 0
+          ? null
+          : currentValue > average
+            ? "ABOVE average"
+            : currentValue < average
+              ? "BELOW average"
+              : "AT average",
+    };
+  }
+
+  return comparison;
+}
+
 /**
  * Helper function to format currency in VND
  */
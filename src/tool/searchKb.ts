@@ -5,10 +5,12 @@ import { z } from "zod";
 export const searchKnowledgeBaseTool = tool(
   async ({
     query,
+    alternative_queries,
     property_id,
     owner_id,
   }: {
     query: string;
+    alternative_queries?: string[];
     property_id?: number;
     owner_id?: string;
   }): Promise<string> => {
@@ -17,7 +19,7 @@ export const searchKnowledgeBaseTool = tool(
         `[Tool: KB Search] Query: "${query}", Property: ${property_id}, Owner: ${owner_id}`
       );
 
-      const chunks = await retrieveRelevantChunks(query, {
+      const chunks = await retrieveRelevantChunks([query, ...(alternative_queries || [])], {
         topK: 5,
         searchType: "hybrid",
         minScore: 0.6,
@@ -42,6 +44,12 @@ export const searchKnowledgeBaseTool = tool(
       "Search the property knowledge base for information about rules, regulations, pricing, amenities, or any property-specific details. Use this when the user asks about internal property information, house rules, rental terms, or documents uploaded by the property owner. Returns relevant information from uploaded documents.",
     schema: z.object({
       query: z.string().describe("The search query to find relevant information"),
+      alternative_queries: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Other phrasings of the same question (e.g. with/without diacritics) to widen the search"
+        ),
       property_id: z.number().optional().describe("Property ID to filter results"),
       owner_id: z.string().optional().describe("Owner ID to filter results"),
     }) as any, // Avoid deep type instantiation
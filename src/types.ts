@@ -2,14 +2,70 @@
  * Type definitions for RAG Service
  */
 
-export interface DocumentMetadata {
+export interface DocumentMetadata extends PropertyInfo {
   title?: string;
   uploaded_by?: string;
   chunk_size?: number;
   overlap?: number;
+  content_format?: "text" | "rows";
+  rows_per_chunk?: number;
+  chunking_strategy?: string;
+  // Document version the chunks are indexed under
+  version?: number;
+  // "listing" for documents generated from backend listing data (see listingDocuments)
+  document_source?: "listing";
+  // What happens to personal data found in the text (default PII_POLICY)
+  pii_policy?: PiiPolicy;
   [key: string]: any;
 }
 
+/**
+ * Property fields written into the enrichment header chunk
+ */
+export interface PropertyInfo {
+  description?: string;
+  price?: number | string;
+  room_size?: number | string;
+  address_details?: string;
+}
+
+/**
+ * Property as returned by the backend's /api/mcp/tools/property/:id
+ */
+export interface ListingProperty {
+  id: number;
+  title?: string;
+  description?: string;
+  price?: number | string;
+  location?: string;
+  roomSize?: number | string;
+  numBedrooms?: number;
+  numBathrooms?: number;
+  availableFrom?: string;
+  isRoomAvailable?: boolean;
+  ownerId?: string | number;
+  ownerName?: string;
+  city?: string;
+  district?: string;
+  ward?: string;
+  street?: string;
+  addressDetails?: string;
+}
+
+export type ListingSyncStatus = "created" | "updated" | "unchanged" | "removed" | "skipped";
+
+/**
+ * Outcome of refreshing a property's knowledge base content from the backend
+ * documents/updated/unchanged count documents whose header chunks were checked
+ */
+export interface PropertySyncResult {
+  property_id: number;
+  documents: number;
+  updated: number;
+  unchanged: number;
+  listing: ListingSyncStatus;
+}
+
 export interface Document {
   id: number;
   title: string;
@@ -29,7 +85,7 @@ export interface Document {
 
 export interface DocumentChunk {
   id?: number;
-  chunk_id?: number;
+  chunk_id?: string;
   document_id: number;
   document_title?: string;
   chunk_text: string;
@@ -44,23 +100,212 @@ export interface DocumentChunk {
   source?: string;
 }
 
+/**
+ * Per-chunk metadata produced by the chunker
+ * overlap_start/overlap_end: character range of chunk_text repeated from the previous chunk
+ * focus_start/focus_end: character range of the focus sentence (sentence-window strategy)
+ */
+export interface ChunkMetadata {
+  section_title?: string;
+  section_priority?: number;
+  is_table?: boolean;
+  overlap_start?: number;
+  overlap_end?: number;
+  focus_start?: number;
+  focus_end?: number;
+  token_count?: number;
+  token_limit_split?: boolean;
+  [key: string]: any;
+}
+
+export interface TextChunk {
+  text: string;
+  metadata: ChunkMetadata;
+}
+
+/**
+ * Section pattern ready for the semantic chunker (regex always has the "g" flag)
+ */
+export interface CompiledSectionPattern {
+  title: string;
+  priority: number;
+  regex: RegExp;
+}
+
+export interface ChunkingOptions {
+  chunkSize?: number;
+  overlap?: number;
+  format?: "text" | "rows";
+  strategy?: string;
+  sectionPatterns?: CompiledSectionPattern[];
+}
+
 export interface ChunkRecord {
-  chunk_id: number;
+  chunk_id: string;
   document_id: number;
   chunk_text: string;
   chunk_index: number;
+  chunk_metadata?: ChunkMetadata;
+  chunking_strategy?: string;
+  // Hash of everything indexed for the chunk except its embedding (see hashChunkContent)
+  content_hash: string;
+  version?: number;
   embedding: number[];
 }
 
+export type PiiType = "id_number" | "phone" | "bank_account" | "email";
+
+/**
+ * redact: replace with a placeholder, mask: keep only the last characters,
+ * flag: index the text unchanged and only report what was found
+ */
+export type PiiPolicy = "redact" | "mask" | "flag";
+
+/**
+ * Personal data found in a document's extracted text, by type
+ */
+export interface PiiReport {
+  policy: PiiPolicy;
+  counts: Record<PiiType, number>;
+  total: number;
+}
+
+/**
+ * Token sizing summary for one processed document
+ * tokenizer: "model" when counts come from the embedding tokenizer, "estimate" otherwise
+ */
+export interface TokenReport {
+  max_tokens: number;
+  tokenizer: "model" | "estimate";
+  effective_chunk_size: number;
+  largest_chunk_tokens: number;
+  split_chunks: number;
+  warnings: string[];
+}
+
+/**
+ * What re-processing a document changed compared with its active version, chunk by chunk
+ */
+export interface IndexChangeCounts {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+/**
+ * chunkRecords holds every chunk of the new version; only added and updated ones were
+ * embedded, unchanged ones reuse the active version's embeddings
+ */
+export interface DocumentProcessingResult {
+  chunkRecords: ChunkRecord[];
+  chunkCount: number;
+  indexChanges: IndexChangeCounts;
+  chunkingStrategy: string;
+  tokenReport: TokenReport;
+}
+
+/**
+ * Character range of the source text
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+  text?: string;
+}
+
+/**
+ * One proposed chunk in a chunking preview
+ * start/end: source offsets of the chunk's own content (null when it can't be located)
+ */
+export interface ChunkPreview {
+  index: number;
+  text: string;
+  section_title?: string;
+  priority?: number;
+  estimated_tokens: number;
+  tokens: number;
+  start: number | null;
+  end: number | null;
+  metadata: ChunkMetadata;
+}
+
+export interface ChunkPreviewResult {
+  text_length: number;
+  chunking_strategy: string;
+  chunk_count: number;
+  capture_rate: number;
+  uncaptured_spans: SourceSpan[];
+  token_report: TokenReport;
+  chunks: ChunkPreview[];
+  // Personal data found in the text, handled as the requested policy would at ingestion
+  pii: PiiReport;
+}
+
+/**
+ * Rental terms read from a chunk's text (see rentalTerms)
+ * Amounts are VND (0 when stated as free); water_rate is per water_rate_unit
+ */
+export interface RentalTerms {
+  price?: number;
+  deposit?: number;
+  // Deposit given as months of rent ("cọc 1 tháng")
+  deposit_months?: number;
+  electricity_per_kwh?: number;
+  water_rate?: number;
+  water_rate_unit?: "m3" | "person" | "month";
+  internet_fee?: number;
+  parking_fee?: number;
+  min_term_months?: number;
+  notice_days?: number;
+}
+
+export type RentalTermKey = keyof RentalTerms;
+
+/**
+ * Chunk a rental term was read from, with the excerpt it was read from
+ */
+export interface RentalTermSource {
+  value: number | string;
+  excerpt: string;
+  chunk_id: string;
+  document_id: number;
+  title?: string;
+  chunk_index: number;
+  document_source?: "listing";
+  chunk_type?: "property_header";
+}
+
+/**
+ * A property's rental terms: the preferred value of each term, and every chunk stating one
+ * (owner documents come before the property header and the listing document)
+ */
+export interface PropertyRentalTerms {
+  property_id: number;
+  terms: RentalTerms;
+  sources: Partial<Record<RentalTermKey, RentalTermSource[]>>;
+}
+
 export interface ESChunk {
-  chunk_id: number;
+  chunk_id: string;
   document_id: number;
   title?: string;
   chunk_text: string;
   chunk_index: number;
+  chunk_metadata?: ChunkMetadata;
   embedding: number[];
   owner_id?: string;
   property_id?: number;
+  kb_scope?: "property" | "owner" | "global";
+  chunking_strategy?: string;
+  // "property_header" for the enrichment header a property sync regenerates
+  chunk_type?: "property_header";
+  document_source?: "listing";
+  // Terms stated in chunk_text, for filtering and comparing properties
+  rental_terms?: RentalTerms;
+  content_hash?: string;
+  version?: number;
+  is_active?: boolean;
   created_at: string;
 }
 
@@ -75,13 +320,15 @@ export interface RetrievalOptions {
 }
 
 export interface ESSearchResult {
-  chunk_id: number;
+  chunk_id: string;
   document_id: number;
   title?: string;
   chunk_text: string;
   chunk_index: number;
   owner_id?: string;
   property_id?: number;
+  // "listing" when the chunk comes from a generated listing document
+  document_source?: "listing";
   score: number;
   similarity_score?: number;
   source: string;
@@ -89,4 +336,130 @@ export interface ESSearchResult {
 
 export interface SearchResult extends ESSearchResult {
   rerank_score?: number;
-}
\ No newline at end of file
+}
+
+export type IngestionStage =
+  | "queued"
+  | "fetching"
+  | "extracting"
+  | "chunking"
+  | "embedding"
+  | "indexing"
+  | "notifying"
+  | "completed";
+
+export interface IngestionProgress {
+  processed?: number;
+  total?: number;
+}
+
+export type ProgressCallback = (stage: IngestionStage, progress?: IngestionProgress) => void;
+
+/**
+ * One processed revision of a document
+ * status: processing while indexing, active for the searchable version, inactive for older
+ * ones that can be rolled back to; failed/unchanged/superseded/pruned versions have no chunks
+ */
+export interface DocumentVersion {
+  document_id: number;
+  version: number;
+  status:
+    | "processing"
+    | "active"
+    | "inactive"
+    | "failed"
+    | "unchanged"
+    | "superseded"
+    | "pruned";
+  title?: string | null;
+  source?: string | null;
+  chunk_count?: number | null;
+  index_changes?: IndexChangeCounts | null;
+  created_at: Date;
+  activated_at?: Date | null;
+}
+
+/**
+ * Chunk-level diff between two versions of a document
+ */
+export interface DocumentVersionDiff {
+  document_id: number;
+  from_version: number;
+  to_version: number;
+  summary: { added: number; removed: number; unchanged: number };
+  changes: {
+    op: "added" | "removed";
+    from_index: number | null;
+    to_index: number | null;
+    text: string;
+  }[];
+}
+
+export interface IngestionJob {
+  id: string;
+  document_id: number;
+  status: "queued" | "running" | "completed" | "failed";
+  stage: IngestionStage;
+  progress_processed: number;
+  progress_total: number;
+  error_message?: string | null;
+  payload: Record<string, any>;
+  created_at: Date;
+  started_at?: Date | null;
+  completed_at?: Date | null;
+  updated_at: Date;
+}
+
+export type WebhookEvent =
+  | "document.processing"
+  | "document.completed"
+  | "document.failed"
+  | "document.deleted";
+
+/**
+ * A registered webhook endpoint
+ * kind: "http" for signed JSON POSTs, "vat" for the VAT document status callback
+ * (configured by VAT_SERVICE_URL, not through the API)
+ */
+export interface WebhookSubscription {
+  id: string;
+  kind: "http" | "vat";
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  description?: string | null;
+  // Only returned when the subscription is created
+  secret?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Body of every webhook request; id is shared by all deliveries of one event
+ */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  created_at: string;
+  data: Record<string, any>;
+}
+
+/**
+ * One event sent to one subscription
+ * status: pending until delivered (retries wait in pending until next_attempt_at),
+ * dead once WEBHOOK_MAX_ATTEMPTS attempts failed
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: "pending" | "delivering" | "delivered" | "dead";
+  attempts: number;
+  next_attempt_at: Date;
+  last_status_code?: number | null;
+  last_error?: string | null;
+  created_at: Date;
+  delivered_at?: Date | null;
+  updated_at: Date;
+}